@@ -0,0 +1,176 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { mkdir, mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { FSStore } from '../src/fs-store';
+
+describe('fs_store', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'apihive-fs-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('round_trips_entries_and_deletes_them', async () => {
+    const store = new FSStore(directory);
+    const now = Date.now();
+    await store.set({ hash: 'GET https://example.com/a?x=1', body: { a: 1 }, createdAt: now, expiresAt: now + 1000 });
+
+    expect(await store.get('GET https://example.com/a?x=1')).toEqual({
+      hash: 'GET https://example.com/a?x=1',
+      body: { a: 1 },
+      createdAt: now,
+      expiresAt: now + 1000
+    });
+    expect(await store.get('missing')).toBeNull();
+
+    await store.delete('GET https://example.com/a?x=1');
+    expect(await store.get('GET https://example.com/a?x=1')).toBeNull();
+    expect(await readdir(path.join(directory, 'expiry'))).toEqual([]);
+  });
+
+  it('cleanup_expired_only_removes_due_entries', async () => {
+    const store = new FSStore(directory);
+    const now = Date.now();
+    await store.set({ hash: 'old', body: 1, createdAt: now, expiresAt: now - 1 });
+    await store.set({ hash: 'fresh', body: 2, createdAt: now, expiresAt: now + 60000 });
+    // rewritten with a later expiry: the stale marker must not delete it
+    await store.set({ hash: 'renewed', body: 3, createdAt: now, expiresAt: now - 1 });
+    await store.set({ hash: 'renewed', body: 4, createdAt: now, expiresAt: now + 60000 });
+
+    await store.cleanupExpired(now);
+    expect(await store.get('old')).toBeNull();
+    expect(await store.get('fresh')).not.toBeNull();
+    expect(await store.get('renewed')).toMatchObject({ body: 4 });
+    expect(await store.usage()).toMatchObject({ entries: 2 });
+
+    await store.clear();
+    expect(await store.get('fresh')).toBeNull();
+  });
+
+  it('serialises_concurrent_writers_through_lock_files', async () => {
+    const a = new FSStore(directory);
+    const b = new FSStore(directory);
+    const now = Date.now();
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (i % 2 ? a : b).set({ hash: 'shared', body: i, createdAt: now, expiresAt: now + 1000 + i })
+      )
+    );
+
+    const entry = await a.get('shared');
+    expect(entry).not.toBeNull();
+    expect(entry!.expiresAt).toBe(now + 1000 + entry!.body);
+    // a single expiry marker survives and no lock or temp files are left behind
+    expect(await readdir(path.join(directory, 'expiry'))).toHaveLength(1);
+    expect(await readdir(path.join(directory, 'locks'))).toEqual([]);
+    expect(await readdir(path.join(directory, 'tmp'))).toEqual([]);
+  });
+
+  it('takes_over_stale_locks_once_and_keeps_fresh_ones', async () => {
+    const locks = path.join(directory, 'locks');
+    const lockPath = path.join(locks, `${createHash('sha256').update('shared').digest('hex')}.lock`);
+    await mkdir(locks, { recursive: true });
+    // left behind by a crashed process
+    await writeFile(lockPath, 'crashed');
+    const past = new Date(Date.now() - 60000);
+    await utimes(lockPath, past, past);
+
+    const a = new FSStore(directory);
+    const b = new FSStore(directory);
+    const now = Date.now();
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (i % 2 ? a : b).set({ hash: 'shared', body: i, createdAt: now, expiresAt: now + 1000 + i })
+      )
+    );
+    const entry = await a.get('shared');
+    expect(entry!.expiresAt).toBe(now + 1000 + entry!.body);
+    expect(await readdir(locks)).toEqual([]);
+
+    // held by a live process: waited for, never removed
+    await writeFile(lockPath, 'alive');
+    const waiting = new FSStore(directory, { lockTimeoutMs: 50 });
+    await expect(waiting.delete('shared')).rejects.toThrow('Timed out');
+    expect(await readFile(lockPath, 'utf8')).toBe('alive');
+
+    // found stale, then broken and taken by another process before this one acts on it
+    await writeFile(lockPath, 'crashed');
+    await utimes(lockPath, past, past);
+    const stat = fs.stat;
+    const statSpy = vi.spyOn(fs, 'stat').mockImplementation(async (...args: Parameters<typeof fs.stat>) => {
+      const stats = await stat(...args);
+      if (args[0] === lockPath) await writeFile(lockPath, 'taken');
+      return stats;
+    });
+    try {
+      await expect(waiting.delete('shared')).rejects.toThrow('Timed out');
+    } finally {
+      statSpy.mockRestore();
+    }
+    expect(await readFile(lockPath, 'utf8')).toBe('taken');
+  });
+
+  it('clears_entries_and_markers_together_while_writes_are_in_progress', async () => {
+    const store = new FSStore(directory);
+    const now = Date.now();
+    const set = (i: number) => store.set({ hash: `e${i}`, body: i, createdAt: now, expiresAt: now + 1000 + i });
+    for (let i = 0; i < 5; i++) await set(i);
+
+    await Promise.all([store.clear(), ...Array.from({ length: 5 }, (_, i) => set(i + 5))]);
+    const keys = (await readdir(path.join(directory, 'entries'))).map((file) => path.basename(file, '.json'));
+    const markers = await readdir(path.join(directory, 'expiry'));
+    expect(markers.map((marker) => marker.slice(marker.indexOf('-') + 1)).sort()).toEqual(keys.sort());
+  });
+
+  it('deletes_entries_by_tag', async () => {
+    const store = new FSStore(directory);
+    const now = Date.now();
+    await store.set({ hash: 'a', body: 1, createdAt: now, expiresAt: now + 1000, tags: ['users', 'user:1'] });
+    await store.set({ hash: 'b', body: 2, createdAt: now, expiresAt: now + 1000, tags: ['posts'] });
+
+    await store.deleteByTags(['user:1']);
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).not.toBeNull();
+  });
+
+  it('deletes_entries_by_partition', async () => {
+    const store = new FSStore(directory);
+    const now = Date.now();
+    await store.set({ hash: 'a', body: 1, createdAt: now, expiresAt: now + 1000, partition: 'alice' });
+    await store.set({ hash: 'b', body: 2, createdAt: now, expiresAt: now + 1000, partition: 'bob' });
+
+    await store.deleteByPartition('alice');
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).not.toBeNull();
+  });
+
+  it('lists_all_entries', async () => {
+    const store = new FSStore(directory);
+    const now = Date.now();
+    await store.set({ hash: 'a', body: 1, createdAt: now, expiresAt: now + 1000, url: 'https://example.com/a' });
+    await store.set({ hash: 'b', body: 2, createdAt: now, expiresAt: now - 1 });
+
+    const entries = await store.getAll();
+    expect(entries.map(({ hash }) => hash).sort()).toEqual(['a', 'b']);
+    expect(entries.find(({ hash }) => hash === 'a')!.url).toBe('https://example.com/a');
+  });
+
+  it('round_trips_binary_bodies', async () => {
+    const store = new FSStore(directory);
+    const now = Date.now();
+    const body = new Uint8Array([0, 128, 255]).buffer;
+    await store.set({ hash: 'bin', body, blobType: 'image/png', createdAt: now, expiresAt: now + 1000 });
+
+    const entry = await store.get('bin');
+    expect(entry!.body).toBeInstanceOf(ArrayBuffer);
+    expect(Array.from(new Uint8Array(entry!.body))).toEqual([0, 128, 255]);
+  });
+});
@@ -4,13 +4,44 @@ import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
 import adaptersFeature from '@apihive/core/features/adapters';
 import requestHashFeature from '@apihive/core/features/request-hash';
 import { HTTPRequestFactory } from '@apihive/core';
-import SimpleRequestCacheAdapter from '../src/index';
+import SimpleRequestCacheAdapter, {
+  CachedHTTPError,
+  CacheMissError,
+  IDBStore,
+  LocalStorageStore,
+  MemoryStore,
+  TieredStore,
+  type CacheEntry,
+  type Store
+} from '../src/index';
 
 const okJSON = (data: any, headers: Record<string, string> = { 'content-type': 'application/json' }) =>
   new Response(JSON.stringify(data), { status: 200, headers });
 const okText = (text: string, headers: Record<string, string> = { 'content-type': 'text/plain' }) =>
   new Response(text, { status: 200, headers });
 
+// Lets the clock move on, so that access times differ
+const later = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+const openDatabase = (name: string, version: number) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(name, version);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const mapStorage = (data: Map<string, string>) =>
+  ({
+    get length() {
+      return data.size;
+    },
+    key: (i: number) => Array.from(data.keys())[i] ?? null,
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => void data.set(k, v),
+    removeItem: (k: string) => void data.delete(k),
+    clear: () => data.clear()
+  }) as Storage;
+
 describe('apihive_adapter_simple_request_cache', () => {
   let fetchSpy: ReturnType<typeof vi.spyOn>;
   let factory: HTTPRequestFactory;
@@ -208,4 +239,1089 @@ describe('apihive_adapter_simple_request_cache', () => {
     await newFactory.createGETRequest('https://example.com/clear-me').withMeta({ cache: 60 }).execute();
     expect(fetchSpy).toHaveBeenCalledTimes(2);
   });
-});
\ No newline at end of file
+
+  it('works_with_custom_stores_implementing_only_the_required_methods', async () => {
+    const entries = new Map<string, CacheEntry>();
+    const store: Store = {
+      get: async (hash) => entries.get(hash) ?? null,
+      set: async (entry) => void entries.set(entry.hash, entry),
+      delete: async (hash) => void entries.delete(hash),
+      clear: async () => entries.clear(),
+      cleanupExpired: async () => undefined
+    };
+    const adapter = new SimpleRequestCacheAdapter({ store, partitionKey: () => 'user-1' });
+    await factory.withAdapter(adapter);
+    const get = (path: string) =>
+      factory.createGETRequest(`https://example.com/${path}`).withMeta({ cache: { ttlSeconds: 60, tags: [path] } }).execute();
+
+    await get('a');
+    await get('b');
+    await get('a');
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    await expect(adapter.getStats()).resolves.not.toHaveProperty('entries');
+    await expect(adapter.invalidateTags('a')).rejects.toThrow('getAll');
+
+    store.getAll = async () => [...entries.values()];
+    expect(await adapter.getStats()).toMatchObject({ entries: 2 });
+    await adapter.invalidateTags('a');
+    expect(entries.size).toBe(1);
+    await adapter.clearPartition('user-1');
+    expect(entries.size).toBe(0);
+  });
+
+  it('uses_custom_store_when_provided', async () => {
+    const store = new MemoryStore();
+    const setSpy = vi.spyOn(store, 'set');
+    const adapter = new SimpleRequestCacheAdapter({ store });
+    await factory.withAdapter(adapter);
+
+    await factory.createGETRequest('https://example.com/memory').withMeta({ cache: 60 }).execute();
+    await factory.createGETRequest('https://example.com/memory').withMeta({ cache: 60 }).execute();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(setSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('local_storage_store_round_trips_and_cleans_up_expired_entries', async () => {
+    const data = new Map<string, string>();
+    const storage = mapStorage(data);
+    data.set('other-app:key', 'untouched');
+
+    const store = new LocalStorageStore('ls-cache', storage);
+    const now = Date.now();
+    await store.set({ hash: 'a', body: { a: 1 }, createdAt: now, expiresAt: now + 1000 });
+    await store.set({ hash: 'b', body: 'b', createdAt: now, expiresAt: now - 1 });
+    expect(await store.get('a')).toMatchObject({ body: { a: 1 } });
+
+    await store.cleanupExpired(now);
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('a')).not.toBeNull();
+
+    await store.clear();
+    expect(await store.get('a')).toBeNull();
+    expect(data.get('other-app:key')).toBe('untouched');
+  });
+
+  it('serves_stale_body_within_swr_window_and_revalidates_in_background', async () => {
+    let n = 0;
+    fetchSpy.mockImplementation(() => okJSON({ n: ++n }));
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-swr' });
+    await factory.withAdapter(adapter);
+    const meta = { cache: { ttlSeconds: 1, staleWhileRevalidateSeconds: 60 } };
+
+    expect(await factory.createGETRequest('https://example.com/swr').withMeta(meta).execute()).toEqual({ n: 1 });
+
+    const realNow = Date.now();
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(realNow + 2000);
+    // stale: served immediately, refreshed in the background
+    expect(await factory.createGETRequest('https://example.com/swr').withMeta(meta).execute()).toEqual({ n: 1 });
+    await vi.waitFor(async () => {
+      expect(await factory.createGETRequest('https://example.com/swr').withMeta(meta).execute()).toEqual({ n: 2 });
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    // past the swr window the entry is not served anymore
+    nowSpy.mockReturnValue(realNow + 2000 + 62000);
+    expect(await factory.createGETRequest('https://example.com/swr').withMeta(meta).execute()).toEqual({ n: 3 });
+    nowSpy.mockRestore();
+  }, 10000);
+
+  it('revalidates_in_the_background_with_the_original_request_headers', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore() });
+    await factory.withAdapter(adapter);
+    const requestHeaders = (call: any[]) => new Headers(call[0] instanceof Request ? call[0].headers : call[1]?.headers);
+    const request = () =>
+      factory
+        .createGETRequest('https://example.com/swr-auth')
+        .withHeaders({ authorization: 'Bearer token' })
+        .withMeta({ cache: { ttlSeconds: 1, staleWhileRevalidateSeconds: 60 } });
+
+    await request().execute();
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+    await request().execute();
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+    expect(requestHeaders(fetchSpy.mock.calls[1]).get('authorization')).toBe('Bearer token');
+    nowSpy.mockRestore();
+  });
+
+  it('respects_http_caching_headers_and_revalidates_with_etag', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-http-headers', respectHttpHeaders: true });
+    await factory.withAdapter(adapter);
+    const requestHeaders = (call: any[]) => new Headers(call[0] instanceof Request ? call[0].headers : call[1]?.headers);
+
+    fetchSpy.mockImplementationOnce(() =>
+      okJSON({ v: 1 }, { 'content-type': 'application/json', 'cache-control': 'max-age=1', etag: '"v1"' })
+    );
+    expect(await factory.createGETRequest('https://example.com/etag').withMeta({ cache: 60 }).execute()).toEqual({ v: 1 });
+    // header TTL wins over meta TTL: still fresh within max-age
+    await factory.createGETRequest('https://example.com/etag').withMeta({ cache: 60 }).execute();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    const realNow = Date.now();
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(realNow + 2000);
+    fetchSpy.mockImplementationOnce(
+      () => new Response(null, { status: 304, headers: { 'cache-control': 'max-age=60', etag: '"v1"' } })
+    );
+    expect(await factory.createGETRequest('https://example.com/etag').withMeta({ cache: 60 }).execute()).toEqual({ v: 1 });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(requestHeaders(fetchSpy.mock.calls[1]).get('if-none-match')).toBe('"v1"');
+
+    // entry extended by the 304
+    nowSpy.mockReturnValue(realNow + 30000);
+    await factory.createGETRequest('https://example.com/etag').withMeta({ cache: 60 }).execute();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    nowSpy.mockRestore();
+  }, 10000);
+
+  it('counts_a_stale_hit_revalidated_in_the_background_once', async () => {
+    const onHit = vi.fn();
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore(), respectHttpHeaders: true, onHit });
+    await factory.withAdapter(adapter);
+    const request = () =>
+      factory.createGETRequest('https://example.com/swr-304').withMeta({ cache: { ttlSeconds: 60, staleWhileRevalidateSeconds: 60 } });
+
+    fetchSpy.mockImplementationOnce(() =>
+      okJSON({ v: 1 }, { 'content-type': 'application/json', 'cache-control': 'max-age=1', etag: '"v1"' })
+    );
+    await request().execute();
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+    fetchSpy.mockImplementationOnce(
+      () => new Response(null, { status: 304, headers: { 'cache-control': 'max-age=60', etag: '"v1"' } })
+    );
+    const stale = request();
+    expect(await stale.execute()).toEqual({ v: 1 });
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => expect(await adapter.peek(request())).not.toBeNull()); // fresh again
+
+    expect(onHit).toHaveBeenCalledTimes(1);
+    expect(adapter.getCacheStatus(stale)).toMatchObject({ status: 'stale' });
+    expect(await adapter.getStats()).toMatchObject({ hits: 1, misses: 1 });
+    nowSpy.mockRestore();
+  });
+
+  it('never_stores_no_store_responses_when_respecting_http_headers', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-no-store', respectHttpHeaders: true });
+    await factory.withAdapter(adapter);
+    fetchSpy.mockImplementation(() =>
+      okJSON({ secret: true }, { 'content-type': 'application/json', 'cache-control': 'no-store' })
+    );
+
+    await factory.createGETRequest('https://example.com/no-store').withMeta({ cache: 60 }).execute();
+    await factory.createGETRequest('https://example.com/no-store').withMeta({ cache: 60 }).execute();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates_entries_by_tag_and_after_successful_mutations', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-tags' });
+    await factory.withAdapter(adapter);
+    const get = (url: string, tags: string[]) =>
+      factory.createGETRequest(url).withMeta({ cache: { ttlSeconds: 60, tags } }).execute();
+
+    await get('https://example.com/users/42', ['user:42', 'users']);
+    await get('https://example.com/users', ['users']);
+    await get('https://example.com/posts', ['posts']);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+
+    await adapter.invalidateTags('user:42');
+    await get('https://example.com/users/42', ['user:42', 'users']); // evicted
+    await get('https://example.com/users', ['users']); // still cached
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+
+    await factory.createPUTRequest('https://example.com/users/42').withMeta({ invalidates: ['users'] }).execute();
+    expect(fetchSpy).toHaveBeenCalledTimes(5);
+    await get('https://example.com/users/42', ['user:42', 'users']);
+    await get('https://example.com/users', ['users']);
+    await get('https://example.com/posts', ['posts']); // untouched
+    expect(fetchSpy).toHaveBeenCalledTimes(7);
+  });
+
+  it('evicts_least_recently_used_entries_past_limits', async () => {
+    const store = new MemoryStore({ maxEntries: 2 });
+    const adapter = new SimpleRequestCacheAdapter({ store });
+    await factory.withAdapter(adapter);
+    const get = (path: string) => factory.createGETRequest(`https://example.com/${path}`).withMeta({ cache: 60 }).execute();
+
+    const realNow = Date.now();
+    const nowSpy = vi.spyOn(Date, 'now');
+    nowSpy.mockReturnValue(realNow);
+    await get('a');
+    nowSpy.mockReturnValue(realNow + 1);
+    await get('b');
+    nowSpy.mockReturnValue(realNow + 2);
+    await get('a'); // hit: 'a' becomes the most recently used
+    nowSpy.mockReturnValue(realNow + 3);
+    await get('c'); // evicts 'b'
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+
+    await get('a');
+    await get('c');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    await get('b');
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+    nowSpy.mockRestore();
+  });
+
+  it('evicts_and_retries_when_the_storage_quota_is_exceeded', async () => {
+    const data = new Map<string, string>();
+    const storage = mapStorage(data);
+    const setItem = storage.setItem;
+    // at most two items fit
+    storage.setItem = (k: string, v: string) => {
+      if (!data.has(k) && data.size >= 2) throw new DOMException('full', 'QuotaExceededError');
+      setItem(k, v);
+    };
+    const store = new LocalStorageStore('quota', storage);
+    const now = Date.now();
+    await store.set({ hash: 'a', body: 1, createdAt: now, expiresAt: now + 1000 });
+    await store.set({ hash: 'b', body: 2, createdAt: now, expiresAt: now + 1000 });
+    await store.set({ hash: 'c', body: 3, createdAt: now, expiresAt: now + 1000 });
+
+    expect(await store.get('c')).toMatchObject({ body: 3 });
+    expect(data.size).toBe(2);
+  });
+
+  it('evicts_least_recently_used_idb_entries_past_limits', async () => {
+    const store = new IDBStore('cache-idb-lru', 'entries', { maxEntries: 2 });
+    const evicted: string[] = [];
+    store.onEvict = (hash) => evicted.push(hash);
+    const now = Date.now();
+    const entry = (hash: string) => ({ hash, body: hash, createdAt: now, expiresAt: now + 60000 });
+
+    await store.set(entry('a'));
+    await later();
+    await store.set(entry('b'));
+    await later();
+    await store.get('a'); // 'a' becomes the most recently used
+    await later();
+    await store.set(entry('c'));
+
+    expect(evicted).toEqual(['b']);
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('b')).toBeNull();
+    expect(await store.usage()).toMatchObject({ entries: 2 });
+  });
+
+  it('evicts_idb_entries_past_the_byte_budget', async () => {
+    const store = new IDBStore('cache-idb-bytes', 'entries', { maxBytes: 150 });
+    const now = Date.now();
+    for (const hash of ['a', 'b', 'c', 'd']) {
+      await store.set({ hash, body: 'x'.repeat(40), createdAt: now, expiresAt: now + 60000 });
+      await later();
+    }
+
+    expect((await store.usage()).bytes).toBeLessThanOrEqual(150);
+    expect(await store.get('d')).not.toBeNull();
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('keeps_a_running_byte_total_instead_of_scanning_on_every_write', async () => {
+    const store = new IDBStore('cache-idb-running-bytes', 'entries', { maxBytes: 100 });
+    const usageSpy = vi.spyOn(store, 'usage');
+    const now = Date.now();
+    const entry = (hash: string, size: number) => ({
+      hash,
+      body: 'x'.repeat(size),
+      createdAt: now,
+      expiresAt: now + 60000
+    });
+    for (const hash of ['a', 'b', 'a', 'b', 'a']) {
+      await store.set(entry(hash, 40)); // replacing an entry doesn't count it twice
+      await later();
+    }
+    expect(usageSpy).toHaveBeenCalledTimes(1);
+    expect(await store.get('b')).not.toBeNull();
+
+    await store.set(entry('c', 40)); // over budget: the least recently used goes
+    expect(await store.get('a')).toBeNull();
+    await store.set(entry('huge', 101)); // never fits: not stored, and nothing else is evicted
+    expect(await store.get('huge')).toBeNull();
+    expect((await store.usage()).entries).toBe(2);
+  });
+
+  it('enforces_local_storage_limits_without_parsing_every_entry', async () => {
+    const data = new Map<string, string>();
+    const store = new LocalStorageStore('limits', mapStorage(data), { maxEntries: 2, maxBytes: 100 });
+    const readSpy = vi.spyOn(store as any, 'read');
+    const now = Date.now();
+    const entry = (hash: string, size: number) => ({
+      hash,
+      body: 'x'.repeat(size),
+      createdAt: now,
+      expiresAt: now + 60000
+    });
+    await store.set(entry('a', 10));
+    await later();
+    await store.set(entry('b', 10));
+    readSpy.mockClear();
+    await store.set(entry('b', 20));
+    expect(readSpy).toHaveBeenCalledTimes(1); // only the replaced entry
+
+    await later();
+    await store.set(entry('c', 10)); // one entry too many
+    expect(data.has('limits:a')).toBe(false);
+    await later();
+    await store.set(entry('d', 95)); // over the byte budget
+    expect([...data.keys()]).toEqual(['limits:d']);
+  });
+
+  it('evicts_idb_entries_and_retries_when_the_storage_quota_is_exceeded', async () => {
+    const store = new IDBStore('cache-idb-quota');
+    const evicted: string[] = [];
+    store.onEvict = (hash) => evicted.push(hash);
+    const now = Date.now();
+    const entry = (hash: string) => ({ hash, body: hash, createdAt: now, expiresAt: now + 60000 });
+    await store.set(entry('a'));
+    await later();
+    await store.set(entry('b'));
+
+    const putSpy = vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+    await store.set(entry('c'));
+    putSpy.mockRestore();
+
+    expect(evicted).toEqual(['a']); // the least recently used share of the entries
+    expect(await store.get('c')).toMatchObject({ body: 'c' });
+    expect(await store.get('b')).not.toBeNull();
+  });
+
+  it('dedupes_concurrent_identical_requests_when_enabled', async () => {
+    fetchSpy.mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve(okJSON({ shared: true })), 20)) as any
+    );
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-dedupe', dedupeInflight: true });
+    await factory.withAdapter(adapter);
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() => factory.createGETRequest('https://example.com/dedupe').withMeta({ cache: 60 }).execute())
+    );
+    expect(results).toEqual([{ shared: true }, { shared: true }, { shared: true }]);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives_each_deduped_request_its_own_copy_of_the_body', async () => {
+    fetchSpy.mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve(okJSON({ items: [1] })), 20)) as any
+    );
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore(), dedupeInflight: true });
+    await factory.withAdapter(adapter);
+
+    const get = () => factory.createGETRequest('https://example.com/dedupe-copies').withMeta({ cache: 60 }).execute();
+    const results = await Promise.all([get(), get(), get()]);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    results[0].items.push(2);
+    expect(results[1]).toEqual({ items: [1] });
+    expect(results[2]).toEqual({ items: [1] });
+    results[1].items.push(3);
+    expect(results[2]).toEqual({ items: [1] });
+  });
+
+  it('does_not_hold_later_requests_after_an_uncacheable_force_cache_miss', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore(), dedupeInflight: true });
+    await factory.withAdapter(adapter);
+    const get = () =>
+      factory.createGETRequest('https://example.com/force-cache').withMeta({ cache: { mode: 'force-cache' } }).execute();
+
+    await get();
+    // Would wait for the first request's inflight entry, which is never settled, if it had been started
+    await get();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    // No ttlSeconds: the responses aren't stored
+    expect(await adapter.getStats()).toMatchObject({ entries: 0 });
+  });
+
+  it('caches_binary_responses_matching_binary_mime_types', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-binary', binaryMimeTypes: ['^image/'] });
+    await factory.withAdapter(adapter);
+    fetchSpy.mockImplementation(
+      () => new Response(new Uint8Array([1, 2, 3]), { status: 200, headers: { 'content-type': 'image/png' } })
+    );
+
+    const b1 = await factory.createGETRequest('https://example.com/logo.png').withMeta({ cache: 60 }).execute();
+    const b2 = await factory.createGETRequest('https://example.com/logo.png').withMeta({ cache: 60 }).execute();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(b1).toBeInstanceOf(Blob);
+    expect(b2).toBeInstanceOf(Blob);
+    expect(b2.type).toBe('image/png');
+    expect(Array.from(new Uint8Array(await b2.arrayBuffer()))).toEqual([1, 2, 3]);
+  });
+
+  it('reports_hits_misses_writes_and_stats', async () => {
+    const onHit = vi.fn();
+    const onMiss = vi.fn();
+    const onWrite = vi.fn();
+    const onEvict = vi.fn();
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore(), onHit, onMiss, onWrite, onEvict });
+    await factory.withAdapter(adapter);
+
+    const request = factory.createGETRequest('https://example.com/stats').withMeta({ cache: 60 });
+    await request.execute();
+    expect(adapter.getCacheStatus(request)).toMatchObject({ status: 'miss' });
+    await factory.createGETRequest('https://example.com/stats').withMeta({ cache: 60 }).execute();
+
+    expect(onMiss).toHaveBeenCalledTimes(1);
+    expect(onWrite).toHaveBeenCalledTimes(1);
+    expect(onHit).toHaveBeenCalledTimes(1);
+    expect(onHit.mock.calls[0][0]).toMatchObject({ hash: request.getHash(), status: 'hit' });
+    expect(adapter.getCacheStatus(request.getHash())).toMatchObject({ status: 'hit' });
+    expect(adapter.getCacheStatus(request)!.ageMs).toBeGreaterThanOrEqual(0);
+
+    const stats = await adapter.getStats();
+    expect(stats).toMatchObject({ hits: 1, misses: 1, writes: 1, hitRatio: 0.5, entries: 1 });
+    expect(stats.bytes).toBeGreaterThan(0);
+
+    await adapter.clearCache();
+    expect(onEvict).toHaveBeenCalledWith({ reason: 'cleared' });
+    expect(await adapter.getStats()).toMatchObject({ entries: 0, evictions: 1 });
+  });
+
+  it('broadcasts_cache_changes_to_other_instances_with_the_same_cache_name', async () => {
+    const adapter1 = new SimpleRequestCacheAdapter({ cacheName: 'cache-cross-tab', crossTab: true });
+    await factory.withAdapter(adapter1);
+    const onEvict = vi.fn();
+    const otherFactory = new HTTPRequestFactory().use(adaptersFeature).use(requestHashFeature).withLogLevel('error');
+    const adapter2 = new SimpleRequestCacheAdapter({ cacheName: 'cache-cross-tab', crossTab: true, onEvict });
+    await otherFactory.withAdapter(adapter2);
+
+    await adapter1.invalidateTags('users');
+    await adapter1.clearCache();
+    await vi.waitFor(() => expect(onEvict).toHaveBeenCalledTimes(2));
+    expect(onEvict.mock.calls[0][0]).toEqual({ reason: 'invalidated', tags: ['users'], remote: true });
+    expect(onEvict.mock.calls[1][0]).toEqual({ reason: 'cleared', remote: true });
+  });
+
+  it('forgets_cache_statuses_of_partitioned_entries_changed_by_other_instances', async () => {
+    const store = new MemoryStore();
+    const options = { cacheName: 'cache-cross-tab-partition', store, crossTab: true, partitionKey: () => 'alice' };
+    const adapter1 = new SimpleRequestCacheAdapter(options);
+    await factory.withAdapter(adapter1);
+    const onEvict = vi.fn();
+    const otherFactory = new HTTPRequestFactory().use(adaptersFeature).use(requestHashFeature).withLogLevel('error');
+    const adapter2 = new SimpleRequestCacheAdapter({ ...options, onEvict });
+    await otherFactory.withAdapter(adapter2);
+
+    const request = otherFactory.createGETRequest('https://example.com/me').withMeta({ cache: 60 });
+    await request.execute();
+    expect(adapter2.getCacheStatus(request)).toMatchObject({ status: 'miss' });
+
+    await adapter1.invalidate(factory.createGETRequest('https://example.com/me').withMeta({ cache: 60 }));
+    await vi.waitFor(() => expect(onEvict).toHaveBeenCalled());
+    expect(adapter2.getCacheStatus(request)).toBeNull();
+  });
+
+  it('serves_expired_entries_when_the_network_fails_within_stale_if_error_window', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-stale-if-error' });
+    await factory.withAdapter(adapter);
+    const meta = { cache: { ttlSeconds: 1, staleIfErrorSeconds: 60 } };
+
+    fetchSpy.mockImplementationOnce(() => okJSON({ cached: true }));
+    await factory.createGETRequest('https://example.com/offline').withMeta(meta).execute();
+
+    const realNow = Date.now();
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(realNow + 2000);
+    // transport error
+    fetchSpy.mockImplementationOnce(() => Promise.reject(new TypeError('Failed to fetch')));
+    const request = factory.createGETRequest('https://example.com/offline').withMeta(meta);
+    expect(await request.execute()).toEqual({ cached: true });
+    expect(adapter.getCacheStatus(request)).toMatchObject({ status: 'stale-if-error' });
+
+    // fallback status
+    fetchSpy.mockImplementationOnce(() => new Response('down', { status: 503 }));
+    expect(await factory.createGETRequest('https://example.com/offline').withMeta(meta).execute()).toEqual({
+      cached: true
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+
+    // past the window the error surfaces
+    nowSpy.mockReturnValue(realNow + 2000 + 60000);
+    fetchSpy.mockImplementationOnce(() => Promise.reject(new TypeError('Failed to fetch')));
+    await expect(factory.createGETRequest('https://example.com/offline').withMeta(meta).execute()).rejects.toBeDefined();
+    nowSpy.mockRestore();
+  }, 10000);
+
+  it('only_falls_back_to_stale_entries_on_network_errors', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore(), offlineFallback: true });
+    await factory.withAdapter(adapter);
+    const get = () => factory.createGETRequest('https://example.com/parse').withMeta({ cache: 1 }).execute();
+    await get();
+
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+    // The server answered, but the body can't be parsed
+    fetchSpy.mockImplementationOnce(
+      () => new Response('{ not json', { status: 200, headers: { 'content-type': 'application/json' } })
+    );
+    await expect(get()).rejects.toBeDefined();
+
+    fetchSpy.mockImplementationOnce(() => Promise.reject(new TypeError('Failed to fetch')));
+    expect(await get()).toEqual({ ok: true });
+    nowSpy.mockRestore();
+  });
+
+  it('keys_entries_by_vary_headers_and_partition', async () => {
+    let user = 'alice';
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-partition', partitionKey: () => user });
+    await factory.withAdapter(adapter);
+    const get = (lang: string) =>
+      factory
+        .createGETRequest('https://example.com/profile')
+        .withHeaders({ 'Accept-Language': lang })
+        .withMeta({ cache: { ttlSeconds: 60, varyHeaders: ['accept-language'] } })
+        .execute();
+
+    await get('en');
+    await get('fr');
+    await get('en');
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    user = 'bob';
+    await get('en');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+
+    await adapter.clearPartition('alice');
+    await get('en'); // bob's entry is untouched
+    user = 'alice';
+    await get('en');
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+  });
+
+  it('encrypts_bodies_at_rest_and_drops_entries_that_fail_to_decrypt', async () => {
+    const generateKey = () =>
+      crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    let key = await generateKey();
+    const store = new MemoryStore();
+    const onWrite = vi.fn();
+    const adapter = new SimpleRequestCacheAdapter({ store, encryption: () => key, onWrite });
+    await factory.withAdapter(adapter);
+    const get = () => factory.createGETRequest('https://example.com/secret').withMeta({ cache: 60 }).execute();
+
+    fetchSpy.mockImplementation(() => okJSON({ ssn: '123' }));
+    expect(await get()).toEqual({ ssn: '123' });
+    const stored = await store.get(onWrite.mock.calls[0][0].hash);
+    expect(stored!.encrypted).toBe(true);
+    expect(stored!.body).toBeInstanceOf(ArrayBuffer);
+    expect(await get()).toEqual({ ssn: '123' });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    key = await generateKey(); // rotated
+    expect(await get()).toEqual({ ssn: '123' });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('compresses_bodies_above_the_threshold', async () => {
+    const store = new MemoryStore();
+    const onWrite = vi.fn();
+    const adapter = new SimpleRequestCacheAdapter({ store, compression: { thresholdBytes: 100 }, onWrite });
+    await factory.withAdapter(adapter);
+    const get = (path: string) => factory.createGETRequest(`https://example.com/${path}`).withMeta({ cache: 60 }).execute();
+    const list = Array.from({ length: 100 }, (_, id) => ({ id, name: 'user' }));
+
+    fetchSpy.mockImplementationOnce(() => okJSON(list)).mockImplementationOnce(() => okJSON({ id: 1 }));
+    await get('list');
+    await get('small');
+    const [large, small] = await Promise.all(onWrite.mock.calls.map(([{ hash }]) => store.get(hash)));
+    expect(large!.encoding).toBe('gzip');
+    expect(large!.body.byteLength).toBeLessThan(JSON.stringify(list).length);
+    expect(small!.encoding).toBeUndefined();
+
+    expect(await get('list')).toEqual(list);
+    expect(await get('small')).toEqual({ id: 1 });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('migrates_idb_databases_created_by_older_versions', async () => {
+    // Schema of the first release: the entries store with an expiresAt index
+    await new Promise<void>((resolve, reject) => {
+      const req = indexedDB.open('cache-legacy', 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore('entries', { keyPath: 'hash' });
+        store.createIndex('expiresAt', 'expiresAt', { unique: false });
+        store.put({ hash: 'legacy', body: 1, createdAt: 1, expiresAt: Date.now() + 60000, tags: ['users'] });
+      };
+      req.onsuccess = () => {
+        req.result.close();
+        resolve();
+      };
+      req.onerror = () => reject(req.error);
+    });
+
+    const store = new IDBStore('cache-legacy', 'entries', { maxEntries: 10 });
+    expect((await store.get('legacy'))!.body).toBe(1);
+    await store.deleteByTags(['users']);
+    expect(await store.get('legacy')).toBeNull();
+  });
+
+  it('closes_its_connection_when_another_tab_upgrades_the_database', async () => {
+    const store = new IDBStore('cache-versionchange');
+    const now = Date.now();
+    await store.set({ hash: 'a', body: 1, createdAt: now, expiresAt: now + 60000 });
+
+    // Blocked forever if the store kept its connection open
+    const newer = await openDatabase('cache-versionchange', 100);
+    expect(newer.version).toBe(100);
+    newer.close();
+  });
+
+  it('gives_up_on_upgrades_blocked_by_another_tab_and_retries_on_the_next_operation', async () => {
+    // e.g. a tab running a build that doesn't close its connection on versionchange
+    const outdated = await openDatabase('cache-blocked', 1);
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const store = new IDBStore('cache-blocked');
+    const blocked = expect(store.get('a')).rejects.toThrow('blocked');
+    await vi.waitFor(() => expect(vi.getTimerCount()).toBe(1));
+    await vi.advanceTimersByTimeAsync(10000);
+    await blocked;
+
+    outdated.close();
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('drops_entries_written_with_another_cache_version', async () => {
+    const store = new MemoryStore();
+    const get = () => factory.createGETRequest('https://example.com/versioned').withMeta({ cache: 60 }).execute();
+
+    await factory.withAdapter(new SimpleRequestCacheAdapter({ store, cacheVersion: 'build-1' }));
+    await get();
+    await get();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    const otherFactory = new HTTPRequestFactory().use(adaptersFeature).use(requestHashFeature).withLogLevel('error');
+    await otherFactory.withAdapter(new SimpleRequestCacheAdapter({ store, cacheVersion: 'build-2' }));
+    // Swept on attach, even if never read again
+    await vi.waitFor(async () => expect(await store.getAll()).toHaveLength(0));
+    await otherFactory.createGETRequest('https://example.com/versioned').withMeta({ cache: 60 }).execute();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports_failed_cache_version_sweeps_without_falling_back', async () => {
+    const store = new MemoryStore();
+    vi.spyOn(store, 'deleteOtherVersions').mockRejectedValueOnce(new Error('sweep failed'));
+    const onError = vi.fn();
+    await factory.withAdapter(new SimpleRequestCacheAdapter({ store, cacheVersion: 'build-1', onError }));
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'cleanup' })));
+    await factory.createGETRequest('https://example.com/versioned-sweep').withMeta({ cache: 60 }).execute();
+    expect(await store.getAll()).toHaveLength(1); // still the configured store
+  });
+
+  it('deletes_idb_entries_of_other_cache_versions', async () => {
+    const store = new IDBStore('cache-idb-versions');
+    const now = Date.now();
+    const entry = (hash: string, cacheVersion?: string) => ({
+      hash,
+      body: 1,
+      createdAt: now,
+      expiresAt: now + 60000
+      cacheVersion
+    });
+    await store.set(entry('old', 'build-1'));
+    await store.set(entry('unversioned'));
+    await store.set(entry('current', 'build-2'));
+
+    await store.deleteOtherVersions('build-2');
+    expect((await store.getAll()).map(({ hash }) => hash)).toEqual(['current']);
+  });
+
+  it('peeks_lists_and_invalidates_entries_programmatically', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-management' });
+    await factory.withAdapter(adapter);
+    const request = (path: string) => factory.createGETRequest(`https://example.com/${path}`).withMeta({ cache: 60 });
+
+    const user = request('users/1');
+    await user.execute();
+    await request('users/2').execute();
+    await request('posts/1').execute();
+
+    expect((await adapter.peek(user))!.body).toEqual({ ok: true });
+    expect(await adapter.peek(request('users/3'))).toBeNull();
+
+    const listed = [];
+    for await (const info of adapter.entries()) listed.push(info);
+    expect(listed.map(({ url, method }) => `${method} ${url}`).sort()).toEqual([
+      'GET https://example.com/posts/1',
+      'GET https://example.com/users/1',
+      'GET https://example.com/users/2'
+    ]);
+    expect(listed[0]).not.toHaveProperty('body');
+
+    await adapter.invalidate(user);
+    expect(await adapter.peek(user)).toBeNull();
+    expect(await adapter.invalidateMatching('https://example.com/users/*')).toBe(1);
+    expect(await adapter.invalidateMatching(/\/posts\//)).toBe(1);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('peeks_fresh_entries_of_requests_not_executed_yet', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore() });
+    await factory.withAdapter(adapter);
+    factory.withAPIConfig({
+      name: 'peek-api',
+      baseURL: 'https://api.example.com',
+      endpoints: {
+        getUser: {
+          target: '/users/{id}',
+          method: 'GET',
+          meta: { cache: { ttlSeconds: 1, staleWhileRevalidateSeconds: 60 } }
+        }
+      }
+    });
+    const user = (id: number) => factory.createAPIRequest('peek-api', 'getUser').withURLParams({ id });
+
+    await user(1).execute();
+    expect((await adapter.peek(user(1)))!.body).toEqual({ ok: true });
+    expect(await adapter.peek(user(2))).toBeNull();
+
+    // Still served while revalidating, but not fresh
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+    expect(await adapter.peek(user(1))).toBeNull();
+    const listed = [];
+    for await (const info of adapter.entries()) listed.push(info);
+    expect(listed).toHaveLength(0);
+    nowSpy.mockRestore();
+  });
+
+  it('exports_and_imports_snapshots_skipping_expired_entries', async () => {
+    const source = new SimpleRequestCacheAdapter({ store: new MemoryStore(), compression: { thresholdBytes: 1 } });
+    await factory.withAdapter(source);
+    fetchSpy.mockImplementationOnce(() => okJSON({ id: 1 })).mockImplementationOnce(() => okJSON({ id: 2 }));
+    await factory.createGETRequest('https://example.com/snapshot/1').withMeta({ cache: 60 }).execute();
+    await factory.createGETRequest('https://example.com/snapshot/2').withMeta({ cache: 60 }).execute();
+
+    const snapshot = await source.exportSnapshot({ filter: ({ url }) => !url!.endsWith('/2') });
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.entries).toHaveLength(1);
+    expect(snapshot.entries[0].body).toEqual({ id: 1 });
+    const now = Date.now();
+    snapshot.entries.push({ hash: 'expired', body: 1, createdAt: now - 2000, expiresAt: now - 1000 });
+
+    const otherFactory = new HTTPRequestFactory().use(adaptersFeature).use(requestHashFeature).withLogLevel('error');
+    const onWrite = vi.fn();
+    const target = new SimpleRequestCacheAdapter({ store: new MemoryStore(), onWrite });
+    await otherFactory.withAdapter(target);
+    expect(await target.importSnapshot(JSON.stringify(snapshot))).toBe(1);
+    expect(onWrite).toHaveBeenCalledWith({ hash: snapshot.entries[0].hash, config: undefined, entry: expect.anything() });
+    expect(await target.getStats()).toMatchObject({ writes: 1 });
+    expect(await otherFactory.createGETRequest('https://example.com/snapshot/1').withMeta({ cache: 60 }).execute()).toEqual({
+      id: 1
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    await expect(target.importSnapshot({ ...snapshot, version: 2 })).rejects.toThrow();
+  });
+
+  it('exposes_stored_status_and_allow_listed_headers_on_hit', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore(), responseHeaders: ['X-Total-Count'] });
+    await factory.withAdapter(adapter);
+    fetchSpy.mockImplementationOnce(() =>
+      okJSON([], { 'content-type': 'application/json', 'x-total-count': '42', 'x-request-id': 'abc' })
+    );
+    await factory.createGETRequest('https://example.com/paged').withMeta({ cache: 60 }).execute();
+
+    const realNow = Date.now();
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(realNow + 5000);
+    const request = factory.createGETRequest('https://example.com/paged').withMeta({ cache: 60 });
+    await request.execute();
+    nowSpy.mockRestore();
+
+    const { response } = adapter.getCacheStatus(request)!;
+    expect(response!.status).toBe(200);
+    expect(response!.headers.get('x-total-count')).toBe('42');
+    expect(response!.headers.get('x-request-id')).toBeNull();
+    expect(Number(response!.headers.get('age'))).toBeGreaterThanOrEqual(5);
+  });
+
+  it('replays_cached_error_statuses_as_errors', async () => {
+    const store = new MemoryStore();
+    const adapter = new SimpleRequestCacheAdapter({ store });
+    await factory.withAdapter(adapter);
+    const get = (requestFactory = factory) =>
+      requestFactory
+        .createGETRequest('https://example.com/missing')
+        .withMeta({ cache: { ttlSeconds: 60, cacheStatuses: [404], negativeTtlSeconds: 1 } })
+        .execute();
+    fetchSpy.mockImplementation(
+      () =>
+        new Response(JSON.stringify({ error: 'not found' }), {
+          status: 404,
+          headers: { 'content-type': 'application/json' }
+        })
+    );
+
+    const networkError = await get().catch((e) => e);
+    const error = await get().catch((e) => e);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    // Same type and shape as the error of the network request, so callers handle both the same way
+    expect(error).not.toBe(networkError);
+    expect(Object.getPrototypeOf(error)).toBe(Object.getPrototypeOf(networkError));
+    expect(error.message).toBe(networkError.message);
+    expect({ ...error }).toEqual({ ...networkError });
+    expect(error).toMatchObject({ status: 404 });
+
+    // Stored in an earlier session: the original error isn't known
+    const newFactory = new HTTPRequestFactory().use(adaptersFeature).use(requestHashFeature).withLogLevel('error');
+    await newFactory.withAdapter(new SimpleRequestCacheAdapter({ store }));
+    const replayed = await get(newFactory).catch((e) => e);
+    expect(replayed).toBeInstanceOf(CachedHTTPError);
+    expect(replayed).toMatchObject({ status: 404, body: { error: 'not found' } });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+    await expect(get()).rejects.toBeDefined();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    nowSpy.mockRestore();
+  });
+
+  it('computes_ttl_from_the_response_and_skips_responses_rejected_by_should_cache', async () => {
+    const adapter = new SimpleRequestCacheAdapter({
+      store: new MemoryStore(),
+      shouldCache: (body) => !body?.error
+    });
+    await factory.withAdapter(adapter);
+    const meta = {
+      cache: {
+        ttlSeconds: (_body: any, response: Response) =>
+          response.headers.get('cache-control')?.includes('immutable') ? 86400 : 1
+      }
+    };
+    const get = (path: string) => factory.createGETRequest(`https://example.com/${path}`).withMeta(meta).execute();
+
+    fetchSpy
+      .mockImplementationOnce(() =>
+        okJSON({ v: 1 }, { 'content-type': 'application/json', 'cache-control': 'max-age=1, immutable' })
+      )
+      .mockImplementationOnce(() => okJSON({ v: 2 }))
+      .mockImplementationOnce(() => okJSON({ error: 'oops' }));
+    await get('immutable');
+    await get('mutable');
+    await get('failing');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+    await get('immutable'); // still fresh
+    await get('mutable');
+    await get('failing'); // never cached
+    expect(fetchSpy).toHaveBeenCalledTimes(5);
+    nowSpy.mockRestore();
+  });
+
+  it('serves_repeated_hits_from_the_memory_tier', async () => {
+    const persistent = new MemoryStore();
+    const getSpy = vi.spyOn(persistent, 'get');
+    const adapter = new SimpleRequestCacheAdapter({ store: persistent, memoryCache: { maxEntries: 10 } });
+    await factory.withAdapter(adapter);
+    const get = () => factory.createGETRequest('https://example.com/hot').withMeta({ cache: 60 }).execute();
+
+    await get(); // miss: looked up in the persistent store
+    await get();
+    await get();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(getSpy).toHaveBeenCalledTimes(1);
+
+    await adapter.clearCache();
+    expect(await persistent.usage()).toMatchObject({ entries: 0 });
+    await get();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns_copies_of_cached_bodies_from_memory', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore(), memoryCache: true });
+    await factory.withAdapter(adapter);
+    fetchSpy.mockImplementation(() => okJSON({ items: [1] }));
+    const get = () => factory.createGETRequest('https://example.com/items').withMeta({ cache: 60 }).execute();
+
+    (await get()).items.push(2);
+    (await get()).items.push(3);
+    expect(await get()).toEqual({ items: [1] });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('records_memory_tier_hits_in_the_persistent_store_lru', async () => {
+    const persistent = new IDBStore('cache-tiered-lru', 'entries', { maxEntries: 2 });
+    const store = new TieredStore(persistent);
+    const now = Date.now();
+    const entry = (hash: string) => ({ hash, body: hash, createdAt: now, expiresAt: now + 60000 });
+
+    await store.set(entry('hot'));
+    await later();
+    await store.set(entry('cold'));
+    await later();
+    for (let i = 0; i < 5; i++) expect(await store.get('hot')).toMatchObject({ body: 'hot' });
+    await later();
+    await store.set(entry('new')); // evicts the least recently used from the persistent store
+
+    expect(await persistent.get('hot')).not.toBeNull();
+    expect(await persistent.get('cold')).toBeNull();
+  });
+
+  it('follows_per_request_cache_modes', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore() });
+    await factory.withAdapter(adapter);
+    let n = 0;
+    fetchSpy.mockImplementation(() => okJSON({ n: ++n }));
+    const get = (mode?: string, path = 'modes') =>
+      factory
+        .createGETRequest(`https://example.com/${path}`)
+        .withMeta({ cache: { ttlSeconds: 1, mode } })
+        .execute();
+
+    expect(await get('no-store')).toEqual({ n: 1 });
+    expect(await get()).toEqual({ n: 2 }); // nothing was stored
+    expect(await get()).toEqual({ n: 2 });
+    expect(await get('reload')).toEqual({ n: 3 });
+    expect(await get()).toEqual({ n: 3 });
+    expect(await get('no-cache')).toEqual({ n: 4 });
+
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000);
+    expect(await get('force-cache')).toEqual({ n: 4 }); // expired but still stored
+    expect(await get('only-if-cached')).toEqual({ n: 4 });
+    await expect(get('only-if-cached', 'uncached')).rejects.toBeInstanceOf(CacheMissError);
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+    nowSpy.mockRestore();
+  });
+
+  it('prefetches_requests_and_refreshes_entries_ahead_of_expiry', async () => {
+    const adapter = new SimpleRequestCacheAdapter({ store: new MemoryStore() });
+    await factory.withAdapter(adapter);
+    let n = 0;
+    fetchSpy.mockImplementation(() => okJSON({ n: ++n }));
+    const meta = { cache: { ttlSeconds: 10, refreshAheadRatio: 0.5 } };
+    const request = () => factory.createGETRequest('https://example.com/warm').withMeta(meta);
+
+    await adapter.prefetch(request());
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(await request().execute()).toEqual({ n: 1 });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 6000);
+    expect(await request().execute()).toEqual({ n: 1 }); // served, and refreshed in the background
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => expect(await request().execute()).toEqual({ n: 2 }));
+    nowSpy.mockRestore();
+  });
+
+  it('falls_back_to_memory_or_disables_itself_when_the_store_is_unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    try {
+      const warnSpy = vi.spyOn(factory.logger, 'warn');
+      const onError = vi.fn();
+      await factory.withAdapter(new SimpleRequestCacheAdapter({ cacheName: 'cache-unavailable', onError }));
+      const get = () => factory.createGETRequest('https://example.com/private-mode').withMeta({ cache: 60 }).execute();
+      await get();
+      await get();
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(onError).not.toHaveBeenCalled();
+
+      const otherFactory = new HTTPRequestFactory().use(adaptersFeature).use(requestHashFeature).withLogLevel('error');
+      await otherFactory.withAdapter(
+        new SimpleRequestCacheAdapter({ cacheName: 'cache-unavailable', storeFallback: 'disable', onError })
+      );
+      await otherFactory.createGETRequest('https://example.com/private-mode').withMeta({ cache: 60 }).execute();
+      await otherFactory.createGETRequest('https://example.com/private-mode').withMeta({ cache: 60 }).execute();
+      expect(fetchSpy).toHaveBeenCalledTimes(3);
+      expect(onError).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('waits_for_the_fallback_store_in_cache_management_calls', async () => {
+    const source = new SimpleRequestCacheAdapter({ store: new MemoryStore() });
+    await factory.withAdapter(source);
+    const get = (f: HTTPRequestFactory) =>
+      f.createGETRequest('https://example.com/hydrated').withMeta({ cache: 60 }).execute();
+    await get(factory);
+    const snapshot = await source.exportSnapshot();
+
+    vi.stubGlobal('indexedDB', undefined);
+    try {
+      const otherFactory = new HTTPRequestFactory().use(adaptersFeature).use(requestHashFeature).withLogLevel('error');
+      const adapter = new SimpleRequestCacheAdapter({ cacheName: 'cache-hydration' });
+      await otherFactory.withAdapter(adapter);
+      // e.g. SSR hydration, right at startup
+      expect(await adapter.importSnapshot(snapshot)).toBe(1);
+      await get(otherFactory);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('switches_back_to_the_store_once_it_works_again', async () => {
+    const store = new MemoryStore();
+    const cleanupSpy = vi.spyOn(store, 'cleanupExpired').mockRejectedValueOnce(new Error('upgrade blocked'));
+    await factory.withAdapter(new SimpleRequestCacheAdapter({ store }));
+    const get = (path: string) =>
+      factory.createGETRequest(`https://example.com/${path}`).withMeta({ cache: 600 }).execute();
+
+    await get('while-failing');
+    expect(await store.getAll()).toHaveLength(0); // cached in memory instead
+
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+    await get('retrying');
+    await vi.waitFor(() => expect(cleanupSpy).toHaveBeenCalledTimes(2));
+    await get('recovered');
+    expect((await store.getAll()).map((entry) => entry.url)).toContain('https://example.com/recovered');
+    nowSpy.mockRestore();
+  });
+
+  it('reopens_the_database_after_the_browser_closes_it', async () => {
+    const store = new IDBStore('cache-closed');
+    const now = Date.now();
+    await store.set({ hash: 'a', body: 1, createdAt: now, expiresAt: now + 60000 });
+    // e.g. site data cleared by the user
+    const db: IDBDatabase = await (store as any).open();
+    db.close();
+    db.onclose?.(new Event('close'));
+
+    expect(await store.get('a')).toMatchObject({ body: 1 });
+  });
+
+  it('sweeps_expired_entries_periodically_while_the_page_is_visible', async () => {
+    const page = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    vi.stubGlobal('document', page);
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    try {
+      const store = new MemoryStore();
+      const cleanupSpy = vi.spyOn(store, 'cleanupExpired');
+      const adapter = new SimpleRequestCacheAdapter({ store, cleanupIntervalSeconds: 60 });
+      await factory.withAdapter(adapter);
+      expect(cleanupSpy).toHaveBeenCalledTimes(1); // on attach
+
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(cleanupSpy).toHaveBeenCalledTimes(3);
+
+      page.visibilityState = 'hidden';
+      page.dispatchEvent(new Event('visibilitychange'));
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(cleanupSpy).toHaveBeenCalledTimes(3);
+
+      page.visibilityState = 'visible';
+      page.dispatchEvent(new Event('visibilitychange'));
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(cleanupSpy).toHaveBeenCalledTimes(4);
+
+      await adapter.dispose();
+      page.dispatchEvent(new Event('visibilitychange'));
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(cleanupSpy).toHaveBeenCalledTimes(4);
+    } finally {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('deletes_expired_idb_entries_in_batches', async () => {
+    const store = new IDBStore('cache-idb-cleanup-batches');
+    const now = Date.now();
+    for (let i = 0; i < 250; i++) {
+      await store.set({ hash: `expired-${i}`, body: i, createdAt: now - 2000, expiresAt: now - 1000 });
+    }
+    await store.set({ hash: 'live', body: 'live', createdAt: now, expiresAt: now + 60000 });
+
+    const cursorSpy = vi.spyOn(IDBIndex.prototype, 'openCursor');
+    await store.cleanupExpired(now);
+    // One transaction per batch of 100
+    expect(cursorSpy).toHaveBeenCalledTimes(3);
+    cursorSpy.mockRestore();
+    expect(await store.usage()).toEqual({ entries: 1, bytes: expect.any(Number) });
+    expect(await store.get('live')).not.toBeNull();
+  });
+});
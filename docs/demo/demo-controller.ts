@@ -8,6 +8,7 @@ import model from './demo-model';
 
 export default class DemoController {
     private factory : HTTPRequestFactory;
+    private adapter = new SimpleRequestCacheAdapter();
 
     constructor() {
         const globalFetch = fetch;
@@ -18,13 +19,14 @@ export default class DemoController {
         this.factory = new HTTPRequestFactory()
             .withAPIConfig(apiConfig)
             .use(adaptersFeature)
-            .withAdapter(new SimpleRequestCacheAdapter());
+            .withAdapter(this.adapter);
 
         watch(() => [model.currentEndpoint, model.currentEndpointParams], () => {
             model.currentRequestHash = '';
             model.fetchCount = 0;
             model.runServiceCount = 0;
             model.result = null;
+            model.cacheStatus = null;
         }, { deep : true });
 
        
@@ -57,6 +59,7 @@ export default class DemoController {
         const hash = request.getHash();
         model.currentRequestHash = hash;
         model.result = response;
+        model.cacheStatus = this.adapter.getCacheStatus(hash);
         if(fetches < model.fetchCount) {
             model.expirations[hash] = Date.now() + apiConfig.endpoints[name]!.meta!.cache! * 1000;
         }
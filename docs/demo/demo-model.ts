@@ -1,4 +1,5 @@
 import { reactive } from 'vue';
+import type { CacheStatusInfo } from '../../src';
 
 export default reactive<{
     fetchCount : number,
@@ -7,7 +8,8 @@ export default reactive<{
     currentEndpoint : string,
     currentEndpointParams : Record<string, any>,
     expirations : Record<string, number>,
-    currentRequestHash : string
+    currentRequestHash : string,
+    cacheStatus : CacheStatusInfo | null
 }>({
     fetchCount : 0,
     runServiceCount : 0,
@@ -15,5 +17,6 @@ export default reactive<{
     currentEndpoint : 'userById',
     currentEndpointParams : { userId : 1 },
     expirations : {},
-    currentRequestHash : ''
+    currentRequestHash : '',
+    cacheStatus : null
 });    
@@ -0,0 +1,302 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { deserialiseEntry, serialiseEntry, type CacheEntry, type Store, type StoreUsage } from './index.js';
+
+export type FSStoreOptions = {
+  /**
+   * Max time to wait for a lock on an entry before giving up. Defaults to 5000ms.
+   */
+  lockTimeoutMs?: number;
+  /**
+   * Locks older than this are considered left behind by a crashed process and are removed.
+   * Defaults to 30000ms.
+   */
+  staleLockMs?: number;
+};
+
+const EXPIRY_DIGITS = 15;
+
+function isErrorCode(e: unknown, code: string) {
+  return !!e && typeof e === 'object' && (e as NodeJS.ErrnoException).code === code;
+}
+
+async function ignoreMissing(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (e) {
+    if (!isErrorCode(e, 'ENOENT')) throw e;
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Filesystem-backed store for Node.js (SSR servers, CLI scripts).
+ *
+ * Layout under `directory`:
+ * - `entries/<key>.json`: one file per cache entry, written via temp file + atomic rename
+ * - `expiry/<expiresAt>-<key>`: empty marker files, sorted by expiry, used by `cleanupExpired`
+ * - `locks/<key>.lock`: per-entry lock files, created exclusively, so that concurrent
+ *   writers across processes don't interleave entry and expiry marker updates
+ * - `tmp/`: staging area for atomic writes
+ *
+ * `<key>` is the sha256 of the request hash, so it's always filename-safe.
+ */
+export class FSStore implements Store {
+  private directory: string;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  private readyPromise: Promise<void> | null = null;
+
+  constructor(directory: string, options: FSStoreOptions = {}) {
+    if (!directory) throw new Error('FSStore directory cannot be an empty string');
+    this.directory = path.resolve(directory);
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 30000;
+  }
+
+  private dir(name: 'entries' | 'expiry' | 'locks' | 'tmp') {
+    return path.join(this.directory, name);
+  }
+
+  private ensureDirs(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = Promise.all(
+        (['entries', 'expiry', 'locks', 'tmp'] as const).map((name) => fs.mkdir(this.dir(name), { recursive: true }))
+      ).then(
+        () => undefined,
+        (e) => {
+          this.readyPromise = null;
+          throw e;
+        }
+      );
+    }
+    return this.readyPromise;
+  }
+
+  private keyOf(hash: string) {
+    return createHash('sha256').update(hash).digest('hex');
+  }
+
+  private entryPath(key: string) {
+    return path.join(this.dir('entries'), `${key}.json`);
+  }
+
+  private expiryMarker(expiresAt: number, key: string) {
+    return `${String(Math.max(0, Math.floor(expiresAt))).padStart(EXPIRY_DIGITS, '0')}-${key}`;
+  }
+
+  private async readEntry(key: string): Promise<CacheEntry | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.entryPath(key), 'utf8');
+    } catch (e) {
+      if (isErrorCode(e, 'ENOENT')) return null;
+      throw e;
+    }
+    try {
+      return deserialiseEntry(raw);
+    } catch {
+      // Can only happen if the file was written outside this store: treat as missing
+      return null;
+    }
+  }
+
+  private async writeAtomic(target: string, data: string) {
+    const tmp = path.join(this.dir('tmp'), `${path.basename(target)}.${process.pid}.${randomBytes(6).toString('hex')}`);
+    try {
+      await fs.writeFile(tmp, data, 'utf8');
+      await fs.rename(tmp, target);
+    } catch (e) {
+      await ignoreMissing(fs.unlink(tmp));
+      throw e;
+    }
+  }
+
+  private async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = path.join(this.dir('locks'), `${key}.lock`);
+    // Identifies this holder, so that a lock is only removed by whoever is known to hold it
+    const token = `${process.pid}-${randomBytes(6).toString('hex')}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    let delay = 5;
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.writeFile(token);
+        await handle.close();
+        break;
+      } catch (e) {
+        if (!isErrorCode(e, 'EEXIST')) throw e;
+        if (await this.breakStaleLock(lockPath)) continue;
+        if (Date.now() > deadline) throw new Error(`Timed out waiting for cache lock ${lockPath}`);
+        await sleep(delay);
+        delay = Math.min(delay * 2, 100);
+      }
+    }
+    try {
+      return await fn();
+    } finally {
+      await this.releaseLock(lockPath, token);
+    }
+  }
+
+  /**
+   * Removes a lock left behind by a crashed process. Returns true if the lock may be free now.
+   * The lock is renamed to a unique name before it's deleted: of several processes finding the same stale lock,
+   * only one gets to move it, and a fresh lock taken in the meantime is put back.
+   */
+  private async breakStaleLock(lockPath: string): Promise<boolean> {
+    let token: string;
+    try {
+      // Token first: if the lock is replaced before the stat, the token won't match the moved lock
+      token = await fs.readFile(lockPath, 'utf8');
+      if (Date.now() - (await fs.stat(lockPath)).mtimeMs <= this.staleLockMs) return false;
+    } catch (e) {
+      if (isErrorCode(e, 'ENOENT')) return true; // released in the meantime
+      throw e;
+    }
+    const moved = `${lockPath}.${randomBytes(6).toString('hex')}.stale`;
+    try {
+      await fs.rename(lockPath, moved);
+    } catch (e) {
+      if (isErrorCode(e, 'ENOENT')) return true; // broken by another process
+      throw e;
+    }
+    try {
+      if ((await fs.readFile(moved, 'utf8')) !== token) {
+        // Not the lock found stale, but a fresh one taken after another process broke it
+        try {
+          await fs.link(moved, lockPath);
+        } catch (e) {
+          if (!isErrorCode(e, 'EEXIST')) throw e;
+        }
+        return false;
+      }
+    } finally {
+      await ignoreMissing(fs.unlink(moved));
+    }
+    return true;
+  }
+
+  private async releaseLock(lockPath: string, token: string) {
+    try {
+      // Ours could have been broken as stale, and the lock taken by another process since
+      if ((await fs.readFile(lockPath, 'utf8')) === token) await fs.unlink(lockPath);
+    } catch (e) {
+      if (!isErrorCode(e, 'ENOENT')) throw e;
+    }
+  }
+
+  async get(hash: string): Promise<CacheEntry | null> {
+    await this.ensureDirs();
+    return this.readEntry(this.keyOf(hash));
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await this.ensureDirs();
+    const key = this.keyOf(entry.hash);
+    await this.withLock(key, async () => {
+      const previous = await this.readEntry(key);
+      await this.writeAtomic(this.entryPath(key), serialiseEntry(entry));
+      await fs.writeFile(path.join(this.dir('expiry'), this.expiryMarker(entry.expiresAt, key)), '');
+      if (previous && previous.expiresAt !== entry.expiresAt) {
+        await ignoreMissing(fs.unlink(path.join(this.dir('expiry'), this.expiryMarker(previous.expiresAt, key))));
+      }
+    });
+  }
+
+  async delete(hash: string): Promise<void> {
+    await this.ensureDirs();
+    await this.removeEntry(this.keyOf(hash));
+  }
+
+  private removeEntry(key: string): Promise<void> {
+    return this.withLock(key, async () => {
+      const previous = await this.readEntry(key);
+      await ignoreMissing(fs.unlink(this.entryPath(key)));
+      if (previous) {
+        await ignoreMissing(fs.unlink(path.join(this.dir('expiry'), this.expiryMarker(previous.expiresAt, key))));
+      }
+    });
+  }
+
+  // Entry by entry, under their locks: a concurrent set() must not be left with an entry without its marker
+  async clear(): Promise<void> {
+    await this.ensureDirs();
+    for (const file of await fs.readdir(this.dir('entries'))) {
+      if (file.endsWith('.json')) await this.removeEntry(file.slice(0, -'.json'.length));
+    }
+    // Markers of entries that were being written when listed, and are gone now
+    for (const marker of await fs.readdir(this.dir('expiry'))) {
+      const key = marker.slice(EXPIRY_DIGITS + 1);
+      await this.withLock(key, async () => {
+        if (!(await this.readEntry(key))) await ignoreMissing(fs.unlink(path.join(this.dir('expiry'), marker)));
+      });
+    }
+  }
+
+  // Tags aren't indexed on disk: this scans every entry
+  async deleteByTags(tags: string[]): Promise<void> {
+    await this.ensureDirs();
+    for (const file of await fs.readdir(this.dir('entries'))) {
+      if (!file.endsWith('.json')) continue;
+      const entry = await this.readEntry(file.slice(0, -'.json'.length));
+      if (entry?.tags?.some((tag) => tags.includes(tag))) await this.delete(entry.hash);
+    }
+  }
+
+  async deleteByPartition(partition: string): Promise<void> {
+    await this.ensureDirs();
+    for (const file of await fs.readdir(this.dir('entries'))) {
+      if (!file.endsWith('.json')) continue;
+      const entry = await this.readEntry(file.slice(0, -'.json'.length));
+      if (entry?.partition === partition) await this.delete(entry.hash);
+    }
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    await this.ensureDirs();
+    const entries: CacheEntry[] = [];
+    for (const file of await fs.readdir(this.dir('entries'))) {
+      if (!file.endsWith('.json')) continue;
+      const entry = await this.readEntry(file.slice(0, -'.json'.length));
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  async usage(): Promise<StoreUsage> {
+    await this.ensureDirs();
+    const usage: StoreUsage = { entries: 0, bytes: 0 };
+    for (const file of await fs.readdir(this.dir('entries'))) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        usage.bytes += (await fs.stat(path.join(this.dir('entries'), file))).size;
+        usage.entries++;
+      } catch (e) {
+        if (!isErrorCode(e, 'ENOENT')) throw e;
+      }
+    }
+    return usage;
+  }
+
+  async cleanupExpired(nowMs: number = Date.now()): Promise<void> {
+    await this.ensureDirs();
+    const markers = (await fs.readdir(this.dir('expiry'))).sort();
+    for (const marker of markers) {
+      const separator = marker.indexOf('-');
+      const expiresAt = Number(marker.slice(0, separator));
+      if (separator !== EXPIRY_DIGITS || Number.isNaN(expiresAt)) continue;
+      // markers are sorted by expiry: nothing else is due
+      if (expiresAt > nowMs) break;
+      const key = marker.slice(separator + 1);
+      await this.withLock(key, async () => {
+        const entry = await this.readEntry(key);
+        // The entry might have been rewritten with a later expiry by another process
+        if (entry && entry.expiresAt <= nowMs) await ignoreMissing(fs.unlink(this.entryPath(key)));
+        await ignoreMissing(fs.unlink(path.join(this.dir('expiry'), marker)));
+      });
+    }
+  }
+}
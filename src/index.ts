@@ -1,6 +1,7 @@
 import type {
   Adapter,
   AdapterPriority,
+  ErrorInterceptor,
   Feature,
   HTTPRequestFactory,
   RequestConfig,
@@ -9,32 +10,434 @@ import type {
 } from '@apihive/core';
 import requestHashFeature from '@apihive/core/features/request-hash';
 
+/**
+ * Computes the TTL of a response once it's received. Returning 0 means "don't cache".
+ */
+export type CacheTtlFunction = (body: any, response: Response, config: RequestConfig) => number;
+
+/**
+ * Decides whether a response is cached, once it's received
+ */
+export type ShouldCachePredicate = (body: any, response: Response, config: RequestConfig) => boolean;
+
+/**
+ * How a request uses the cache, like the `cache` option of `fetch()`:
+ * - `default`: answer from cache while the entry is fresh (or within its stale-while-revalidate window)
+ * - `no-store`: bypass the cache, without updating it
+ * - `reload`: bypass the cache and store the response
+ * - `no-cache`: always go to the network, with a conditional request if the entry has validators
+ * - `force-cache`: answer with any stored entry, even expired, and go to the network only without one
+ * - `only-if-cached`: answer with any stored entry, even expired, or fail with a `CacheMissError`
+ */
+export type CacheMode = 'default' | 'no-store' | 'reload' | 'no-cache' | 'force-cache' | 'only-if-cached';
+
 export type ExtendedCacheMeta = {
-  ttlSeconds: number;
-  hashBody: boolean;
+  /**
+   * Without one, the response isn't stored whatever the `mode`
+   */
+  ttlSeconds?: number | CacheTtlFunction;
+  hashBody?: boolean;
+  /**
+   * Defaults to `default`. `force-cache` and `only-if-cached` don't need a `ttlSeconds` to read from the cache,
+   * but responses are only stored with one.
+   */
+  mode?: CacheMode;
+  /**
+   * Overrides the adapter's `shouldCache` option
+   */
+  shouldCache?: ShouldCachePredicate;
+  /**
+   * Once the TTL has elapsed, keep serving the stale body for this many seconds
+   * while the entry is refreshed in the background.
+   */
+  staleWhileRevalidateSeconds?: number;
+  /**
+   * Once the TTL has elapsed, keep the entry for this many seconds to answer in place of
+   * failed requests (network errors and the `offlineFallback` statuses)
+   */
+  staleIfErrorSeconds?: number;
+  /**
+   * Request headers whose values are part of the cache key, like the HTTP `Vary` response header
+   */
+  varyHeaders?: string[];
+  /**
+   * Error statuses (e.g. 404, 410) whose responses are cached too. A hit on them throws a copy of the network
+   * error, or a `CachedHTTPError`.
+   */
+  cacheStatuses?: number[];
+  /**
+   * TTL of the responses cached because of `cacheStatuses`. Defaults to `ttlSeconds`.
+   */
+  negativeTtlSeconds?: number;
+  /**
+   * Fraction of the TTL (between 0 and 1) after which a hit also refreshes the entry in the background,
+   * so that frequently used entries are replaced before they expire
+   */
+  refreshAheadRatio?: number;
+  /**
+   * Tags to attach to the entry, for later invalidation via `invalidateTags()`
+   */
+  tags?: string[];
 };
 
 export type SimpleCacheMeta = number;
 
 export type CacheMeta = SimpleCacheMeta | ExtendedCacheMeta;
 
-type CacheEntry = {
+/**
+ * Tags evicted from the cache when a mutation request (POST/PUT/PATCH/DELETE) succeeds.
+ * Set via `meta.invalidates`.
+ */
+export type InvalidatesMeta = string | string[];
+
+/**
+ * Replays an error response cached because of `meta.cache.cacheStatuses`, when the error the network request failed
+ * with isn't known: the entry was stored in an earlier session or by another tab
+ */
+export class CachedHTTPError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  /**
+   * The parsed body of the error response, or null if its content type isn't cacheable
+   */
+  readonly body: any;
+
+  constructor(status: number, statusText: string, body: any) {
+    super(`HTTP ${status}${statusText ? ` ${statusText}` : ''} (cached)`);
+    this.name = 'CachedHTTPError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+/**
+ * Thrown for `only-if-cached` requests that have no cached entry. Like an HTTP cache, it has a 504 status.
+ */
+export class CacheMissError extends Error {
+  readonly status = 504;
+
+  constructor(url: string) {
+    super(`No cached response for ${url}`);
+    this.name = 'CacheMissError';
+  }
+}
+
+const MUTATION_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Upper bound on how long a request waits for an identical in-flight one before going to the network
+const INFLIGHT_WAIT_TIMEOUT_MS = 30000;
+
+// How often a store that failed when the adapter was attached is tried again, e.g. after another tab blocked an upgrade
+const STORE_RETRY_INTERVAL_MS = 60000;
+
+// Marks the requests issued by the adapter to refresh a stale entry
+const REVALIDATE_META_KEY = '@apihive/adapter-simple-cache:revalidate';
+
+export type CacheEntry = {
   hash: string;
   body: any;
   createdAt: number;
+  /**
+   * After this time the entry is no longer usable and can be purged by the store
+   */
   expiresAt: number;
+  /**
+   * End of the freshness window. Between this and `expiresAt` the entry is stale
+   * and only served while it's being revalidated. Defaults to `expiresAt` if missing.
+   */
+  freshUntil?: number;
+  /**
+   * Validators from the original response, used for conditional revalidation
+   */
+  etag?: string;
+  lastModified?: string;
+  tags?: string[];
+  /**
+   * Partition the entry belongs to, see the adapter's `partitionKey` option
+   */
+  partition?: string;
+  /**
+   * True if `body` is encrypted: an ArrayBuffer holding the AES-GCM IV followed by the ciphertext
+   */
+  encrypted?: boolean;
+  /**
+   * Name of the codec that compressed the body, if it was compressed. See the adapter's `compression` option.
+   */
+  encoding?: string;
+  /**
+   * The adapter's `cacheVersion` when the entry was written
+   */
+  cacheVersion?: string;
+  /**
+   * URL and method of the cached request, to find the entry again
+   */
+  url?: string;
+  method?: string;
+  /**
+   * Name of the API endpoint, for requests created from an API definition
+   */
+  endpoint?: string;
+  /**
+   * Status of the cached response
+   */
+  status?: number;
+  statusText?: string;
+  /**
+   * The cached response's headers that are in the adapter's `responseHeaders` allow-list, by lowercase name
+   */
+  headers?: Record<string, string>;
+  /**
+   * True for error responses cached because of `cacheStatuses`
+   */
+  negative?: boolean;
+  /**
+   * MIME type of a binary body. Binary bodies are stored as an ArrayBuffer and returned as a Blob of this type.
+   */
+  blobType?: string;
+  /**
+   * Approximate size of the body, only tracked when a store has a `maxBytes` limit
+   */
+  size?: number;
+  /**
+   * Last time the entry was read or written, used for LRU eviction
+   */
+  lastAccessedAt?: number;
 };
 
-interface Store {
+export type StoreLimits = {
+  /**
+   * Max number of entries. Least recently used entries are evicted on write past this.
+   */
+  maxEntries?: number;
+  /**
+   * Max approximate size of all the bodies, in bytes. Least recently used entries are evicted on write past this.
+   */
+  maxBytes?: number;
+};
+
+/**
+ * Storage backend used by the adapter to persist cache entries.
+ * Implement this interface to plug in a custom storage (e.g. a server-side cache).
+ */
+export interface Store {
   get(hash: string): Promise<CacheEntry | null>;
   set(entry: CacheEntry): Promise<void>;
   delete(hash: string): Promise<void>;
   clear(): Promise<void>;
   cleanupExpired(nowMs?: number): Promise<void>;
+  /**
+   * Deletes every entry tagged with at least one of the given tags. Without it, the adapter scans `getAll()`.
+   */
+  deleteByTags?(tags: string[]): Promise<void>;
+  /**
+   * Deletes every entry in the given partition. Without it, the adapter scans `getAll()`.
+   */
+  deleteByPartition?(partition: string): Promise<void>;
+  /**
+   * Deletes every entry written with another `cacheVersion`. Without it, the adapter scans `getAll()`.
+   */
+  deleteOtherVersions?(cacheVersion: string): Promise<void>;
+  /**
+   * Every stored entry, expired or not, in no particular order.
+   * Stores without it can't be listed, exported or invalidated by pattern.
+   */
+  getAll?(): Promise<CacheEntry[]>;
+  /**
+   * Number of entries and their approximate size in bytes, null if unknown. Without it, the adapter adds up `getAll()`.
+   */
+  usage?(): Promise<StoreUsage | null>;
+  /**
+   * Records an access to an entry without reading it, for least-recently-used eviction
+   */
+  touch?(hash: string): Promise<void>;
+  /**
+   * Releases connections held by the store, e.g. the IndexedDB database. They're reopened by the next operation.
+   */
+  close?(): Promise<void>;
+  /**
+   * Set by the adapter: stores call it when they evict entries on their own (size limits, quota)
+   */
+  onEvict?: (hash: string) => void;
+}
+
+export type StoreUsage = {
+  entries: number;
+  bytes: number;
+};
+
+const hasAnyTag = (entry: CacheEntry, tags: string[]) => !!entry.tags?.some((tag) => tags.includes(tag));
+
+async function entriesOf(store: Store): Promise<CacheEntry[]> {
+  if (!store.getAll) throw new Error('The cache store cannot list its entries: it has no getAll() method');
+  return store.getAll();
+}
+
+async function deleteTagged(store: Store, tags: string[]): Promise<void> {
+  if (store.deleteByTags) return store.deleteByTags(tags);
+  for (const entry of await entriesOf(store)) {
+    if (hasAnyTag(entry, tags)) await store.delete(entry.hash);
+  }
+}
+
+async function usageOf(store: Store): Promise<StoreUsage | null> {
+  if (store.usage) return store.usage();
+  if (!store.getAll) return null;
+  const usage: StoreUsage = { entries: 0, bytes: 0 };
+  for (const entry of await store.getAll()) {
+    usage.entries++;
+    usage.bytes += entrySize(entry);
+  }
+  return usage;
+}
+
+async function deleteOtherVersions(store: Store, cacheVersion: string): Promise<void> {
+  if (store.deleteOtherVersions) return store.deleteOtherVersions(cacheVersion);
+  for (const entry of await entriesOf(store)) {
+    if (entry.cacheVersion !== cacheVersion) await store.delete(entry.hash);
+  }
+}
+
+async function deletePartition(store: Store, partition: string): Promise<void> {
+  if (store.deleteByPartition) return store.deleteByPartition(partition);
+  for (const entry of await entriesOf(store)) {
+    if (entry.partition === partition) await store.delete(entry.hash);
+  }
+}
+
+const hasLimits = (limits: StoreLimits) => !!(limits.maxEntries || limits.maxBytes);
+
+// Share of the entries evicted before retrying a write that exceeded the storage quota
+const QUOTA_EVICTION_RATIO = 0.1;
+const QUOTA_MAX_RETRIES = 3;
+
+const isQuotaExceeded = (e: unknown) =>
+  !!e && typeof e === 'object' && ['QuotaExceededError', 'NS_ERROR_DOM_QUOTA_REACHED'].includes((e as Error).name);
+
+/**
+ * Rough size of a body once serialised. Good enough to enforce a size budget.
+ */
+function estimateSize(body: any): number {
+  if (typeof body === 'string') return body.length;
+  if (body instanceof ArrayBuffer) return body.byteLength;
+  try {
+    return JSON.stringify(body)?.length || 0;
+  } catch {
+    return 0;
+  }
+}
+
+const entrySize = (entry: CacheEntry) => entry.size ?? estimateSize(entry.body);
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay below the max number of function arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+/**
+ * Bytes of a body, for the transforms (compression, encryption) that work on binary data
+ */
+function bodyToBytes(body: any): ArrayBuffer {
+  if (body instanceof ArrayBuffer) return body;
+  return new TextEncoder().encode(JSON.stringify(body)).buffer as ArrayBuffer;
+}
+
+/**
+ * Counterpart of `bodyToBytes`
+ */
+function bytesToBody(data: ArrayBuffer, entry: CacheEntry): any {
+  return entry.blobType ? data : JSON.parse(new TextDecoder().decode(data));
+}
+
+const IV_BYTES = 12;
+
+async function encryptBytes(key: CryptoKey, plaintext: ArrayBuffer): Promise<ArrayBuffer> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  const data = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  data.set(iv);
+  data.set(new Uint8Array(ciphertext), IV_BYTES);
+  return data.buffer;
+}
+
+async function decryptBytes(key: CryptoKey, encrypted: ArrayBuffer): Promise<ArrayBuffer> {
+  const data = new Uint8Array(encrypted);
+  const iv = data.subarray(0, IV_BYTES);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data.subarray(IV_BYTES));
+}
+
+function transformBytes(data: ArrayBuffer, transform: CompressionStream | DecompressionStream): Promise<ArrayBuffer> {
+  return new Response(new Blob([data]).stream().pipeThrough(transform)).arrayBuffer();
+}
+
+/**
+ * gzip via the native `CompressionStream`. The default codec of the `compression` option.
+ */
+export const gzipCodec: CompressionCodec = {
+  name: 'gzip',
+  compress: (data) => transformBytes(data, new CompressionStream('gzip')),
+  decompress: (data) => transformBytes(data, new DecompressionStream('gzip'))
+};
+
+/**
+ * Serialises an entry as JSON, base64-encoding binary bodies.
+ * For stores that can't persist structured-cloneable values.
+ */
+export function serialiseEntry(entry: CacheEntry): string {
+  return JSON.stringify(toJSONEntry(entry));
+}
+
+/**
+ * Counterpart of `serialiseEntry`
+ */
+export function deserialiseEntry(raw: string): CacheEntry {
+  return fromJSONEntry(JSON.parse(raw));
+}
+
+function toJSONEntry(entry: CacheEntry): CacheEntry {
+  if (!(entry.body instanceof ArrayBuffer)) return entry;
+  return { ...entry, body: arrayBufferToBase64(entry.body) };
+}
+
+function fromJSONEntry(entry: CacheEntry): CacheEntry {
+  const isBinary = entry.blobType || entry.encrypted || entry.encoding;
+  if (isBinary && typeof entry.body === 'string') entry.body = base64ToArrayBuffer(entry.body);
+  return entry;
+}
+
+/**
+ * Returns a predicate to be fed entries from the most to the least recently used.
+ * It returns false for the entries that don't fit the limits and must be evicted.
+ */
+function lruBudget(limits: StoreLimits) {
+  let count = 0;
+  let bytes = 0;
+  return (entry: CacheEntry) => {
+    const size = entry.size || 0;
+    if ((limits.maxEntries && count + 1 > limits.maxEntries) || (limits.maxBytes && bytes + size > limits.maxBytes))
+      return false;
+    count++;
+    bytes += size;
+    return true;
+  };
 }
 
+const byMostRecentlyUsed = (a: CacheEntry, b: CacheEntry) => (b.lastAccessedAt || 0) - (a.lastAccessedAt || 0);
+
 /**
- * Returns true if the cache config is not a number or an object with ttlSeconds and hashBody properties
+ * Returns true if the cache config is not a number or an object with ttlSeconds, hashBody or mode properties
  */
 function configDoesntConform(cacheConfig: unknown): cacheConfig is never {
   return (
@@ -43,19 +446,103 @@ function configDoesntConform(cacheConfig: unknown): cacheConfig is never {
       typeof cacheConfig === 'number' ||
       (typeof cacheConfig === 'object' &&
         cacheConfig !== null &&
-        (typeof (cacheConfig as any).ttlSeconds === 'number' ||
+        (['number', 'function'].includes(typeof (cacheConfig as any).ttlSeconds) ||
+          typeof (cacheConfig as any).mode === 'string' ||
           typeof (cacheConfig as any).hashBody === 'boolean'))
     )
   );
 }
-class IDBStore implements Store {
+
+type HttpCachePolicy = {
+  noStore: boolean;
+  ttlSeconds?: number;
+  etag?: string;
+  lastModified?: string;
+};
+
+/**
+ * Reads freshness and validators from the response headers as per RFC 9111.
+ * `ttlSeconds` is undefined if the response doesn't carry any freshness information.
+ */
+function parseHttpCachePolicy(headers: Headers, shared: boolean, nowMs: number): HttpCachePolicy {
+  const directives = new Map<string, string>();
+  for (const part of (headers.get('cache-control') || '').split(',')) {
+    const [key, value = ''] = part.split('=');
+    if (key.trim()) directives.set(key.trim().toLowerCase(), value.trim().replace(/^"|"$/g, ''));
+  }
+  const policy: HttpCachePolicy = {
+    noStore: directives.has('no-store') || (shared && directives.has('private')),
+    etag: headers.get('etag') || undefined,
+    lastModified: headers.get('last-modified') || undefined
+  };
+
+  const age = Number(headers.get('age')) || 0;
+  const maxAge = (shared && directives.get('s-maxage')) || directives.get('max-age');
+  if (directives.has('no-cache')) {
+    policy.ttlSeconds = 0;
+  } else if (maxAge && /^\d+$/.test(maxAge)) {
+    policy.ttlSeconds = Math.max(0, Number(maxAge) - age);
+  } else if (headers.has('expires')) {
+    // An invalid Expires value means "already expired"
+    const expires = Date.parse(headers.get('expires')!);
+    const date = Date.parse(headers.get('date') || '') || nowMs;
+    policy.ttlSeconds = Number.isNaN(expires) ? 0 : Math.max(0, Math.floor((expires - date) / 1000) - age);
+  }
+  return policy;
+}
+
+/**
+ * Schema migrations of the IndexedDB store: the one at index `i` upgrades the store from version `i` to `i + 1`.
+ * Released migrations must never change: append new ones instead.
+ */
+const IDB_MIGRATIONS: ((store: IDBObjectStore) => void)[] = [
+  (store) => store.createIndex('expiresAt', 'expiresAt', { unique: false }),
+  (store) => store.createIndex('tags', 'tags', { unique: false, multiEntry: true }),
+  (store) => {
+    store.createIndex('lastAccessedAt', 'lastAccessedAt', { unique: false });
+    // Entries written by older versions aren't in the index until they have an access time
+    const cursorReq = store.openCursor();
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      if (typeof cursor.value.lastAccessedAt !== 'number') {
+        cursor.update({ ...cursor.value, lastAccessedAt: cursor.value.createdAt });
+      }
+      cursor.continue();
+    };
+  },
+  (store) => store.createIndex('partition', 'partition', { unique: false })
+];
+
+const IDB_VERSION = IDB_MIGRATIONS.length;
+
+/**
+ * How long to wait for other tabs to close an outdated connection before giving up on an upgrade
+ */
+const IDB_BLOCKED_TIMEOUT_MS = 10000;
+
+/**
+ * Max expired entries deleted per transaction, so that long sweeps don't hold up reads and writes
+ */
+const IDB_CLEANUP_BATCH_SIZE = 100;
+
+/**
+ * IndexedDB-backed store. This is the default store used by the adapter.
+ */
+export class IDBStore implements Store {
+  onEvict?: (hash: string) => void;
   private dbName: string;
   private storeName: string;
+  private limits: StoreLimits;
   private dbPromise: Promise<IDBDatabase> | null = null;
+  // Running size of the entries when there's a byte budget, so writes don't need to scan the store. Bulk deletes
+  // reset it and the next write measures it again. Writes from other tabs are only counted from then on.
+  private bytes?: number;
 
-  constructor(dbName: string, storeName = 'entries') {
+  constructor(dbName: string, storeName = 'entries', limits: StoreLimits = {}) {
     this.dbName = dbName;
     this.storeName = storeName;
+    this.limits = limits;
   }
 
   private get supported() {
@@ -67,29 +554,48 @@ class IDBStore implements Store {
     if (this.dbPromise) return this.dbPromise;
 
     this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
-      const req = indexedDB.open(this.dbName, 1);
+      const req = indexedDB.open(this.dbName, IDB_VERSION);
       let settled = false;
+      let failed = false;
+      let blockedTimer: ReturnType<typeof setTimeout> | undefined;
       const done = (db: IDBDatabase) => {
-        if (!settled) {
+        clearTimeout(blockedTimer);
+        if (failed) {
+          // Opened after we gave up waiting: don't hold a connection nobody uses
+          db.close();
+        } else if (!settled) {
           settled = true;
+          // Another tab is upgrading the schema: let it, and reopen on the next operation
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          // Closed by the browser (e.g. storage cleared by the user): reopen on the next operation
+          db.onclose = () => {
+            this.dbPromise = null;
+          };
           resolve(db);
         }
       };
       const fail = (err: unknown) => {
+        clearTimeout(blockedTimer);
         if (!settled) {
-          settled = true;
+          settled = failed = true;
+          this.dbPromise = null;
           reject(err);
         }
       };
 
-      req.onupgradeneeded = () => {
+      req.onupgradeneeded = (event) => {
         const db = req.result;
+        let fromVersion = event.oldVersion;
+        // A new store in an existing database (e.g. a different storeName) starts from scratch
         if (!db.objectStoreNames.contains(this.storeName)) {
-          const store = db.createObjectStore(this.storeName, {
-            keyPath: 'hash'
-          });
-          store.createIndex('expiresAt', 'expiresAt', { unique: false });
+          db.createObjectStore(this.storeName, { keyPath: 'hash' });
+          fromVersion = 0;
         }
+        const store = req.transaction!.objectStore(this.storeName);
+        for (let version = fromVersion; version < IDB_VERSION; version++) IDB_MIGRATIONS[version](store);
         // Some environments (e.g., fake-indexeddb) require waiting for the upgrade transaction to complete
         const tx = (req.transaction as IDBTransaction | null) || null;
         if (tx) {
@@ -99,7 +605,14 @@ class IDBStore implements Store {
         }
       };
       req.onsuccess = () => done(req.result);
-      req.onblocked = () => fail(new Error('IndexedDB open blocked'));
+      // Tabs with an outdated connection that don't close it on versionchange (e.g. older builds) block upgrades
+      req.onblocked = () => {
+        clearTimeout(blockedTimer);
+        blockedTimer = setTimeout(
+          () => fail(new Error('IndexedDB upgrade blocked by a connection in another tab')),
+          IDB_BLOCKED_TIMEOUT_MS
+        );
+      };
       req.onerror = () => fail(req.error);
     });
 
@@ -111,34 +624,148 @@ class IDBStore implements Store {
     return db.transaction(this.storeName, mode).objectStore(this.storeName);
   }
 
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(tx.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   async get(hash: string): Promise<CacheEntry | null> {
-    const store = await this.tx('readonly');
+    // Access times are only worth a write transaction if there are limits to enforce
+    const tracksAccess = hasLimits(this.limits);
+    const store = await this.tx(tracksAccess ? 'readwrite' : 'readonly');
     return new Promise((resolve, reject) => {
       const req = store.get(hash);
-      req.onsuccess = () => resolve((req.result as CacheEntry) || null);
+      req.onsuccess = () => {
+        const entry = (req.result as CacheEntry) || null;
+        if (entry && tracksAccess) store.put({ ...entry, lastAccessedAt: Date.now() });
+        resolve(entry);
+      };
       req.onerror = () => reject(req.error);
     });
   }
 
-  async set(entry: CacheEntry): Promise<void> {
+  async touch(hash: string): Promise<void> {
+    if (!hasLimits(this.limits)) return;
     const store = await this.tx('readwrite');
     return new Promise((resolve, reject) => {
-      const req = store.put(entry);
-      req.onsuccess = () => resolve();
+      const req = store.get(hash);
+      req.onsuccess = () => {
+        if (req.result) store.put({ ...req.result, lastAccessedAt: Date.now() });
+        resolve();
+      };
       req.onerror = () => reject(req.error);
     });
   }
 
+  async set(entry: CacheEntry): Promise<void> {
+    const record: CacheEntry = { ...entry, lastAccessedAt: Date.now() };
+    if (this.limits.maxBytes) record.size = estimateSize(record.body);
+    if (this.limits.maxBytes && record.size! > this.limits.maxBytes) {
+      // It would push every other entry out and still not fit
+      await this.delete(entry.hash);
+      this.onEvict?.(entry.hash);
+      return;
+    }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const db = await this.open();
+        const tx = db.transaction(this.storeName, 'readwrite');
+        const store = tx.objectStore(this.storeName);
+        const tracked = this.bytes !== undefined;
+        let replacedSize = 0;
+        if (tracked) {
+          const req = store.get(entry.hash);
+          req.onsuccess = () => (replacedSize = req.result ? entrySize(req.result) : 0);
+        }
+        store.put(record);
+        // Quota errors abort the transaction after the request succeeded: wait for completion
+        await this.complete(tx);
+        if (tracked && this.bytes !== undefined) this.bytes += record.size! - replacedSize;
+        break;
+      } catch (e) {
+        if (!isQuotaExceeded(e) || attempt >= QUOTA_MAX_RETRIES) throw e;
+        if (!(await this.evictLeastRecentlyUsed(QUOTA_EVICTION_RATIO))) throw e;
+      }
+    }
+    if (hasLimits(this.limits)) await this.enforceLimits();
+  }
+
+  /**
+   * Evicts the given share of the entries, least recently used first. Returns the number of evicted entries.
+   */
+  private async evictLeastRecentlyUsed(ratio: number): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    const store = tx.objectStore(this.storeName);
+    let evicted = 0;
+    const countReq = store.count();
+    countReq.onsuccess = () => {
+      const toEvict = Math.max(1, Math.ceil(countReq.result * ratio));
+      const cursorReq = store.index('lastAccessedAt').openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor || evicted >= toEvict) return;
+        if (this.bytes !== undefined) this.bytes -= entrySize(cursor.value);
+        cursor.delete();
+        this.onEvict?.(cursor.primaryKey as string);
+        evicted++;
+        cursor.continue();
+      };
+    };
+    await this.complete(tx);
+    return evicted;
+  }
+
+  /**
+   * Evicts the least recently used entries until the store is back within its limits. Only walks the
+   * `lastAccessedAt` index when over a limit, and then only as far as needed.
+   */
+  private async enforceLimits(): Promise<void> {
+    const { maxEntries, maxBytes } = this.limits;
+    if (maxBytes && this.bytes === undefined) this.bytes = (await this.usage()).bytes;
+    const db = await this.open();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    const store = tx.objectStore(this.storeName);
+    const countReq = store.count();
+    countReq.onsuccess = () => {
+      let excessEntries = maxEntries ? countReq.result - maxEntries : 0;
+      const overBudget = () => excessEntries > 0 || (!!maxBytes && this.bytes! > maxBytes);
+      if (!overBudget()) return;
+      const cursorReq = store.index('lastAccessedAt').openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor || !overBudget()) return;
+        if (this.bytes !== undefined) this.bytes -= entrySize(cursor.value);
+        cursor.delete();
+        this.onEvict?.(cursor.primaryKey as string);
+        excessEntries--;
+        cursor.continue();
+      };
+    };
+    return this.complete(tx);
+  }
+
   async delete(hash: string): Promise<void> {
     const store = await this.tx('readwrite');
-    return new Promise((resolve, reject) => {
+    const tracked = this.bytes !== undefined;
+    let deletedSize = 0;
+    if (tracked) {
+      const req = store.get(hash);
+      req.onsuccess = () => (deletedSize = req.result ? entrySize(req.result) : 0);
+    }
+    await new Promise<void>((resolve, reject) => {
       const req = store.delete(hash);
       req.onsuccess = () => resolve();
       req.onerror = () => reject(req.error);
     });
+    if (tracked && this.bytes !== undefined) this.bytes -= deletedSize;
   }
 
   async clear(): Promise<void> {
+    this.bytes = undefined;
     const store = await this.tx('readwrite');
     return new Promise((resolve, reject) => {
       const req = store.clear();
@@ -148,100 +775,1159 @@ class IDBStore implements Store {
   }
 
   async cleanupExpired(nowMs: number = Date.now()): Promise<void> {
+    this.bytes = undefined;
+    let deleted: number;
+    do {
+      deleted = await this.cleanupExpiredBatch(nowMs);
+    } while (deleted === IDB_CLEANUP_BATCH_SIZE);
+  }
+
+  private async cleanupExpiredBatch(nowMs: number): Promise<number> {
     const db = await this.open();
     const tx = db.transaction(this.storeName, 'readwrite');
-    const store = tx.objectStore(this.storeName);
-    const index = store.index('expiresAt');
+    const index = tx.objectStore(this.storeName).index('expiresAt');
+    let deleted = 0;
+    const cursorReq = index.openCursor(IDBKeyRange.upperBound(nowMs));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (cursor && deleted < IDB_CLEANUP_BATCH_SIZE) {
+        cursor.delete();
+        deleted++;
+        cursor.continue();
+      }
+    };
+    await this.complete(tx);
+    return deleted;
+  }
+
+  async deleteByTags(tags: string[]): Promise<void> {
+    this.bytes = undefined;
+    const db = await this.open();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    const index = tx.objectStore(this.storeName).index('tags');
+    return new Promise((resolve, reject) => {
+      for (const tag of tags) {
+        const cursorReq = index.openCursor(IDBKeyRange.only(tag));
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (cursor) {
+            cursor.delete();
+            cursor.continue();
+          }
+        };
+      }
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(tx.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async deleteByPartition(partition: string): Promise<void> {
+    this.bytes = undefined;
+    const db = await this.open();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    const cursorReq = tx.objectStore(this.storeName).index('partition').openCursor(IDBKeyRange.only(partition));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+    return this.complete(tx);
+  }
+
+  async deleteOtherVersions(cacheVersion: string): Promise<void> {
+    this.bytes = undefined;
+    const db = await this.open();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    const cursorReq = tx.objectStore(this.storeName).openCursor();
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      if ((cursor.value as CacheEntry).cacheVersion !== cacheVersion) cursor.delete();
+      cursor.continue();
+    };
+    return this.complete(tx);
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    const store = await this.tx('readonly');
+    return new Promise((resolve, reject) => {
+      const req = store.getAll();
+      req.onsuccess = () => resolve(req.result as CacheEntry[]);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  async usage(): Promise<StoreUsage> {
+    const store = await this.tx('readonly');
     return new Promise((resolve, reject) => {
-      const range = IDBKeyRange.upperBound(nowMs);
-      const cursorReq = index.openCursor(range);
+      const usage: StoreUsage = { entries: 0, bytes: 0 };
+      const cursorReq = store.openCursor();
       cursorReq.onsuccess = () => {
         const cursor = cursorReq.result;
-        if (cursor) {
-          cursor.delete();
-          cursor.continue();
-        } else {
-          resolve();
-        }
+        if (!cursor) return resolve(usage);
+        usage.entries++;
+        usage.bytes += entrySize(cursor.value);
+        cursor.continue();
       };
       cursorReq.onerror = () => reject(cursorReq.error);
     });
   }
+
+  async close(): Promise<void> {
+    const dbPromise = this.dbPromise;
+    this.dbPromise = null;
+    // A failed open has nothing to close
+    const db = await dbPromise?.catch(() => null);
+    db?.close();
+  }
 }
 
-export type SimpleRequestCacheAdapterOptions = {
-  cacheName?: string;
-  filter?: (config: RequestConfig) => boolean;
-  clear?: boolean;
-};
+/**
+ * In-memory store. Entries only live as long as the store instance.
+ * Useful for SSR, workers and unit tests where IndexedDB is not available.
+ * Like IndexedDB, it stores and returns copies: callers mutating a body don't change the cached one.
+ */
+export class MemoryStore implements Store {
+  onEvict?: (hash: string) => void;
+  private entries = new Map<string, CacheEntry>();
+  private limits: StoreLimits;
 
-export default class SimpleRequestCacheAdapter implements Adapter {
-  readonly name = '@apihive/adapter-simple-cache';
-  readonly priority: AdapterPriority = {
-    requestInterceptor: 0,
-    responseInterceptor: 0,
-    errorInterceptor: 0
-  };
-  // Auto-enable the request-hash feature
-  readonly use: Feature[] = [requestHashFeature];
+  constructor(limits: StoreLimits = {}) {
+    this.limits = limits;
+  }
 
-  private store: Store;
-  private filter?: (config: RequestConfig) => boolean;
-  private clearOnAttach: boolean;
-  private factory?: HTTPRequestFactory;
-  private readyPromise?: Promise<void>;
+  async get(hash: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(hash);
+    if (!entry) return null;
+    entry.lastAccessedAt = Date.now();
+    return structuredClone(entry);
+  }
 
-  constructor(options: SimpleRequestCacheAdapterOptions = { cacheName: 'apihive-request-cache' }) {
-    const { cacheName, filter, clear = false } = options;
-    if (!cacheName) throw new Error('cacheName is cannot be an empty string');
-    this.filter = filter;
-    this.clearOnAttach = !!clear;
-    this.store = new IDBStore(cacheName!);
+  async touch(hash: string): Promise<void> {
+    const entry = this.entries.get(hash);
+    if (entry) entry.lastAccessedAt = Date.now();
   }
 
-  onAttach(factory: HTTPRequestFactory): void {
-    this.factory = factory;
-    try {
-      if (this.clearOnAttach) {
-        this.store.clear();
-      } else {
-        this.readyPromise = this.store.cleanupExpired(Date.now());
-      }
-    } catch {
-      // non-fatal
+  async set(entry: CacheEntry): Promise<void> {
+    const record: CacheEntry = { ...structuredClone(entry), lastAccessedAt: Date.now() };
+    if (this.limits.maxBytes) record.size = estimateSize(record.body);
+    this.entries.set(entry.hash, record);
+    if (!hasLimits(this.limits)) return;
+    const fits = lruBudget(this.limits);
+    for (const stored of Array.from(this.entries.values()).sort(byMostRecentlyUsed)) {
+      if (fits(stored)) continue;
+      this.entries.delete(stored.hash);
+      this.onEvict?.(stored.hash);
     }
   }
 
-  getRequestInterceptors(): RequestInterceptor[] {
-    return [
-      async ({config, controls}) => {
-        await this.readyPromise;
+  async delete(hash: string): Promise<void> {
+    this.entries.delete(hash);
+  }
 
-        const { ttlSeconds, hashBody } = this.resolveCacheMetaConfig(config.meta);
-        if (!ttlSeconds) return;
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
 
-        const explicit = this.isExplicitCache(config);
-        if (!explicit && this.filter && !this.filter(config)) return;
+  async cleanupExpired(nowMs: number = Date.now()): Promise<void> {
+    for (const [hash, entry] of this.entries) {
+      if (entry.expiresAt <= nowMs) this.entries.delete(hash);
+    }
+  }
 
-        // Ensure URL is finalized prior to hashing
-        controls.finaliseURL();
+  async deleteByTags(tags: string[]): Promise<void> {
+    for (const [hash, entry] of this.entries) {
+      if (hasAnyTag(entry, tags)) this.entries.delete(hash);
+    }
+  }
 
-        let hash: string;
-        try {
-          hash = controls.getHash({ includeBody: hashBody }); // includeBody defaults to false
-        } catch {
-          // If request-hash is unavailable, do nothing. Feature guard is already in getHash()
-          return;
+  async deleteByPartition(partition: string): Promise<void> {
+    for (const [hash, entry] of this.entries) {
+      if (entry.partition === partition) this.entries.delete(hash);
+    }
+  }
+
+  async deleteOtherVersions(cacheVersion: string): Promise<void> {
+    for (const [hash, entry] of this.entries) {
+      if (entry.cacheVersion !== cacheVersion) this.entries.delete(hash);
+    }
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    return [...this.entries.values()].map((entry) => structuredClone(entry));
+  }
+
+  async usage(): Promise<StoreUsage> {
+    let bytes = 0;
+    for (const entry of this.entries.values()) bytes += entrySize(entry);
+    return { entries: this.entries.size, bytes };
+  }
+}
+
+/**
+ * Two-tier store: a bounded in-memory LRU in front of a persistent store.
+ * Writes go through to both tiers and entries read from the persistent store are kept in memory,
+ * so repeated reads of hot entries never reach the persistent store.
+ */
+export class TieredStore implements Store {
+  onEvict?: (hash: string) => void;
+  private memory: MemoryStore;
+  private persistent: Store;
+
+  constructor(persistent: Store, memoryLimits: StoreLimits = { maxEntries: 100 }) {
+    this.persistent = persistent;
+    this.memory = new MemoryStore(memoryLimits);
+    // Entries dropped from memory are still in the persistent store: only its evictions are reported
+    const persistentOnEvict = persistent.onEvict;
+    persistent.onEvict = (hash) => {
+      persistentOnEvict?.(hash);
+      this.memory.delete(hash);
+      this.onEvict?.(hash);
+    };
+  }
+
+  async get(hash: string): Promise<CacheEntry | null> {
+    const cached = await this.memory.get(hash);
+    if (cached) {
+      // Keeps hot entries from being the first evicted by the persistent store's own limits
+      this.persistent.touch?.(hash).catch(() => undefined);
+      return cached;
+    }
+    const entry = await this.persistent.get(hash);
+    if (entry) await this.memory.set(entry);
+    return entry;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await this.persistent.set(entry);
+    await this.memory.set(entry);
+  }
+
+  async delete(hash: string): Promise<void> {
+    await this.memory.delete(hash);
+    await this.persistent.delete(hash);
+  }
+
+  async clear(): Promise<void> {
+    await this.memory.clear();
+    await this.persistent.clear();
+  }
+
+  async cleanupExpired(nowMs: number = Date.now()): Promise<void> {
+    await this.memory.cleanupExpired(nowMs);
+    await this.persistent.cleanupExpired(nowMs);
+  }
+
+  async touch(hash: string): Promise<void> {
+    await this.memory.touch(hash);
+    await this.persistent.touch?.(hash);
+  }
+
+  async deleteByTags(tags: string[]): Promise<void> {
+    await this.memory.deleteByTags(tags);
+    await deleteTagged(this.persistent, tags);
+  }
+
+  async deleteByPartition(partition: string): Promise<void> {
+    await this.memory.deleteByPartition(partition);
+    await deletePartition(this.persistent, partition);
+  }
+
+  async deleteOtherVersions(cacheVersion: string): Promise<void> {
+    await this.memory.deleteOtherVersions(cacheVersion);
+    await deleteOtherVersions(this.persistent, cacheVersion);
+  }
+
+  getAll(): Promise<CacheEntry[]> {
+    return entriesOf(this.persistent);
+  }
+
+  usage(): Promise<StoreUsage | null> {
+    return usageOf(this.persistent);
+  }
+
+  async close(): Promise<void> {
+    await this.persistent.close?.();
+  }
+
+  /**
+   * Drops an entry, or all of them, from memory only. For when the persistent store was changed by someone else,
+   * e.g. another tab.
+   */
+  forget(hash?: string) {
+    if (hash === undefined) this.memory.clear();
+    else this.memory.delete(hash);
+  }
+}
+
+/**
+ * Web Storage-backed store (localStorage by default).
+ * Entries are serialised as JSON under keys prefixed with the store's namespace,
+ * so only JSON-serialisable bodies can be cached.
+ */
+export class LocalStorageStore implements Store {
+  onEvict?: (hash: string) => void;
+  private prefix: string;
+  private storage?: Storage;
+  private limits: StoreLimits;
+  // Running size of the entries when there's a byte budget, like IDBStore's
+  private bytes?: number;
+
+  constructor(namespace: string, storage?: Storage, limits: StoreLimits = {}) {
+    this.prefix = `${namespace}:`;
+    this.storage = storage || (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    this.limits = limits;
+  }
+
+  private get backend(): Storage {
+    if (!this.storage) throw new Error('localStorage not available');
+    return this.storage;
+  }
+
+  private ownKeys(): string[] {
+    const storage = this.backend;
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key && key.startsWith(this.prefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  private read(key: string): CacheEntry | null {
+    const raw = this.backend.getItem(key);
+    if (raw === null) return null;
+    try {
+      return deserialiseEntry(raw);
+    } catch {
+      // corrupted entry: drop it
+      this.backend.removeItem(key);
+      this.bytes = undefined;
+      return null;
+    }
+  }
+
+  private ownEntries(): CacheEntry[] {
+    return this.ownKeys()
+      .map((key) => this.read(key))
+      .filter((entry): entry is CacheEntry => !!entry);
+  }
+
+  async get(hash: string): Promise<CacheEntry | null> {
+    const entry = this.read(this.prefix + hash);
+    if (entry && hasLimits(this.limits)) this.recordAccess(entry);
+    return entry;
+  }
+
+  async touch(hash: string): Promise<void> {
+    if (!hasLimits(this.limits)) return;
+    const entry = this.read(this.prefix + hash);
+    if (entry) this.recordAccess(entry);
+  }
+
+  private recordAccess(entry: CacheEntry) {
+    entry.lastAccessedAt = Date.now();
+    try {
+      this.backend.setItem(this.prefix + entry.hash, serialiseEntry(entry));
+    } catch {
+      // access time is best effort
+    }
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    const record: CacheEntry = { ...entry, lastAccessedAt: Date.now() };
+    if (this.limits.maxBytes) record.size = estimateSize(record.body);
+    if (this.limits.maxBytes && record.size! > this.limits.maxBytes) {
+      // It would push every other entry out and still not fit
+      await this.delete(entry.hash);
+      this.onEvict?.(entry.hash);
+      return;
+    }
+    const serialised = serialiseEntry(record);
+    const replaced = this.bytes !== undefined ? this.read(this.prefix + entry.hash) : null;
+    const replacedSize = replaced ? entrySize(replaced) : 0;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        this.backend.setItem(this.prefix + entry.hash, serialised);
+        break;
+      } catch (e) {
+        if (!isQuotaExceeded(e) || attempt >= QUOTA_MAX_RETRIES) throw e;
+        // Rare enough to measure again on the next write
+        this.bytes = undefined;
+        const entries = this.ownEntries().sort(byMostRecentlyUsed);
+        if (!entries.length) throw e;
+        const toEvict = Math.max(1, Math.ceil(entries.length * QUOTA_EVICTION_RATIO));
+        for (const evicted of entries.slice(-toEvict)) this.evict(evicted);
+      }
+    }
+    if (this.bytes !== undefined) this.bytes += record.size! - replacedSize;
+    if (hasLimits(this.limits)) this.enforceLimits();
+  }
+
+  /**
+   * Evicts the least recently used entries until the store is back within its limits. Only parses the entries
+   * when over a limit.
+   */
+  private enforceLimits() {
+    const { maxEntries, maxBytes } = this.limits;
+    if (maxBytes && this.bytes === undefined) {
+      this.bytes = this.ownEntries().reduce((bytes, entry) => bytes + entrySize(entry), 0);
+    }
+    let excessEntries = maxEntries ? this.ownKeys().length - maxEntries : 0;
+    const overBudget = () => excessEntries > 0 || (!!maxBytes && this.bytes! > maxBytes);
+    if (!overBudget()) return;
+    for (const stored of this.ownEntries().sort(byMostRecentlyUsed).reverse()) {
+      if (!overBudget()) break;
+      this.evict(stored);
+      excessEntries--;
+    }
+  }
+
+  private evict(entry: CacheEntry) {
+    this.backend.removeItem(this.prefix + entry.hash);
+    if (this.bytes !== undefined) this.bytes -= entrySize(entry);
+    this.onEvict?.(entry.hash);
+  }
+
+  async delete(hash: string): Promise<void> {
+    const deleted = this.bytes !== undefined ? this.read(this.prefix + hash) : null;
+    this.backend.removeItem(this.prefix + hash);
+    if (deleted && this.bytes !== undefined) this.bytes -= entrySize(deleted);
+  }
+
+  async clear(): Promise<void> {
+    for (const key of this.ownKeys()) this.backend.removeItem(key);
+    this.bytes = undefined;
+  }
+
+  async cleanupExpired(nowMs: number = Date.now()): Promise<void> {
+    this.bytes = undefined;
+    for (const key of this.ownKeys()) {
+      const entry = this.read(key);
+      if (entry && entry.expiresAt <= nowMs) this.backend.removeItem(key);
+    }
+  }
+
+  async deleteByTags(tags: string[]): Promise<void> {
+    this.bytes = undefined;
+    for (const key of this.ownKeys()) {
+      const entry = this.read(key);
+      if (entry && hasAnyTag(entry, tags)) this.backend.removeItem(key);
+    }
+  }
+
+  async deleteByPartition(partition: string): Promise<void> {
+    this.bytes = undefined;
+    for (const key of this.ownKeys()) {
+      if (this.read(key)?.partition === partition) this.backend.removeItem(key);
+    }
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    const entries: CacheEntry[] = [];
+    for (const key of this.ownKeys()) {
+      const entry = this.read(key);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  async usage(): Promise<StoreUsage> {
+    const usage: StoreUsage = { entries: 0, bytes: 0 };
+    for (const key of this.ownKeys()) {
+      usage.entries++;
+      usage.bytes += this.backend.getItem(key)?.length || 0;
+    }
+    return usage;
+  }
+}
+
+export type SimpleRequestCacheAdapterOptions = {
+  cacheName?: string;
+  filter?: (config: RequestConfig) => boolean;
+  clear?: boolean;
+  /**
+   * Custom storage backend. Defaults to an `IDBStore` named after `cacheName`.
+   */
+  store?: Store;
+  /**
+   * Honor the response caching headers (Cache-Control, Expires, ETag, Last-Modified).
+   * See `HttpCachingOptions` for the object form.
+   */
+  respectHttpHeaders?: boolean | HttpCachingOptions;
+  /**
+   * Evict the tags listed in `meta.invalidates` when a POST/PUT/PATCH/DELETE request succeeds.
+   * Defaults to true.
+   */
+  invalidateOnMutation?: boolean;
+  /**
+   * Max number of entries kept by the default store. Least recently used entries are evicted past this.
+   * Custom stores take their limits in their own constructor.
+   */
+  maxEntries?: number;
+  /**
+   * Max approximate size in bytes of the entries kept by the default store.
+   */
+  maxBytes?: number;
+  /**
+   * Let concurrent identical cacheable requests wait for the first one's response instead of
+   * all hitting the network. Defaults to false.
+   */
+  dedupeInflight?: boolean;
+  /**
+   * Binary MIME types (regular expressions, like the core's `jsonMimeTypes`) whose responses should be cached.
+   * Their bodies are stored as ArrayBuffer and returned as Blob. Defaults to none.
+   */
+  binaryMimeTypes?: string[];
+  /**
+   * Response headers (case-insensitive) to store with the entries, e.g. `Link` or `X-Total-Count`.
+   * On a hit they're exposed by `getCacheStatus()` and the `onHit` hook. Defaults to none.
+   */
+  responseHeaders?: string[];
+  /**
+   * Keeps the most recently used entries in memory in front of the store (see `TieredStore`), so that
+   * repeated hits don't pay for a read from IndexedDB. `true` keeps up to 100 entries.
+   */
+  memoryCache?: boolean | StoreLimits;
+  /**
+   * What to do if the store fails when the adapter is attached, e.g. IndexedDB unavailable in private mode:
+   * `memory` (default) caches in memory instead, `disable` turns caching off. Either way a single warning is logged.
+   */
+  storeFallback?: 'memory' | 'disable';
+  /**
+   * Deletes expired entries every this many seconds, besides the cleanup done when the adapter is attached.
+   * Sweeps are paused while the page is hidden and stopped by `dispose()`. Defaults to none.
+   */
+  cleanupIntervalSeconds?: number;
+  /**
+   * Decides whether a response is cached, e.g. to skip 200 responses carrying an error.
+   * Can be overridden per request with `meta.cache.shouldCache`.
+   */
+  shouldCache?: ShouldCachePredicate;
+  /**
+   * Broadcast writes, deletes and clears to the adapters using the same `cacheName` in other tabs
+   * via BroadcastChannel. Ignored where BroadcastChannel is not available. Defaults to false.
+   */
+  crossTab?: boolean;
+  /**
+   * Answer failed requests with the last cached body, even if expired.
+   * See `OfflineFallbackOptions` for the object form.
+   */
+  offlineFallback?: boolean | OfflineFallbackOptions;
+  /**
+   * Partition of the cache a request belongs to (e.g. the current user id), folded into the cache key
+   * so that requests from different partitions never share entries. See `clearPartition()`.
+   */
+  partitionKey?: (config: RequestConfig) => string | null | undefined;
+  /**
+   * AES-GCM key, or a function returning it, used to encrypt bodies before they're stored.
+   * Entries that can't be decrypted (e.g. after a key rotation) are deleted and treated as a miss.
+   */
+  encryption?: EncryptionKey;
+  /**
+   * Compresses large bodies before they're stored. Ignored where `CompressionStream` is not available,
+   * unless a codec is provided.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * Version of the cached data, e.g. the app build id. Entries written with a different version are
+   * treated as a miss and deleted.
+   */
+  cacheVersion?: string;
+} & CacheHooks;
+
+/**
+ * Identifies an entry: a request, or the hash reported by the cache hooks
+ */
+export type CacheTarget = string | { config: RequestConfig; getHash(options?: { includeBody: boolean }): string };
+
+/**
+ * What `entries()` lists: an entry without its body
+ */
+export type CacheEntryInfo = Omit<CacheEntry, 'body'>;
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Cache contents as produced by `exportSnapshot()`. JSON-serialisable: binary bodies are base64-encoded.
+ */
+export type CacheSnapshot = {
+  version: number;
+  createdAt: number;
+  entries: CacheEntry[];
+};
+
+export type SnapshotExportOptions = {
+  /**
+   * Only export entries written within this many seconds
+   */
+  maxAgeSeconds?: number;
+  /**
+   * Only export the entries it returns true for, e.g. by `hash` or `url`
+   */
+  filter?: (entry: CacheEntryInfo) => boolean;
+};
+
+export type EncryptionKey = CryptoKey | (() => CryptoKey | Promise<CryptoKey>);
+
+export type CompressionCodec = {
+  /**
+   * Recorded as the `encoding` of the entries it compresses
+   */
+  name: string;
+  compress(data: ArrayBuffer): Promise<ArrayBuffer>;
+  decompress(data: ArrayBuffer): Promise<ArrayBuffer>;
+};
+
+export type CompressionOptions = {
+  /**
+   * Bodies smaller than this are stored as they are. Defaults to 1024 bytes.
+   */
+  thresholdBytes?: number;
+  /**
+   * Defaults to `gzipCodec`
+   */
+  codec?: CompressionCodec;
+};
+
+export type OfflineFallbackOptions = {
+  /**
+   * Default for `meta.cache.staleIfErrorSeconds`. Defaults to one day.
+   */
+  staleIfErrorSeconds?: number;
+  /**
+   * Response statuses treated like a network failure. Defaults to 500, 502, 503 and 504.
+   */
+  statuses?: number[];
+};
+
+/**
+ * Changes broadcast to the other adapter instances when `crossTab` is enabled
+ */
+export type CacheChangeMessage =
+  | { type: 'write'; hash: string }
+  | { type: 'delete'; hash: string; reason: CacheEvictEvent['reason'] }
+  | { type: 'invalidate'; tags: string[] }
+  | { type: 'partition'; partition: string }
+  | { type: 'clear' };
+
+const CHANNEL_PREFIX = '@apihive/adapter-simple-cache:';
+
+function urlMatcher(
+  pattern: string | RegExp | ((entry: CacheEntryInfo) => boolean)
+): (entry: CacheEntryInfo) => boolean {
+  if (typeof pattern === 'function') return pattern;
+  let regExp = pattern as RegExp;
+  if (typeof pattern === 'string') {
+    const escaped = pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    regExp = new RegExp(`^${escaped.join('.*')}$`);
+  }
+  return (entry) => !!entry.url && regExp.test(entry.url);
+}
+
+type CacheKey = {
+  /**
+   * The store key
+   */
+  hash: string;
+  /**
+   * The hash computed by the request-hash feature
+   */
+  requestHash: string;
+  partition?: string;
+};
+
+/**
+ * The request's headers as a plain object, whether the config holds a record or a `Headers` instance
+ */
+function requestHeaders(config: RequestConfig): Record<string, string> {
+  const { headers } = config;
+  const record: Record<string, string> = {};
+  if (!headers) return record;
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, key) => (record[key] = value));
+  } else {
+    for (const [key, value] of Object.entries(headers)) record[key] = String(value);
+  }
+  return record;
+}
+
+function requestHeader(config: RequestConfig, name: string): string | undefined {
+  const headers = requestHeaders(config);
+  const match = Object.keys(headers).find((key) => key.toLowerCase() === name);
+  return match === undefined ? undefined : headers[match];
+}
+
+// Messages of the TypeError fetch() rejects with when the request can't be sent (Chrome, Firefox, Safari, Node)
+const FETCH_FAILURE_MESSAGE = /failed to fetch|networkerror|load failed|fetch failed/i;
+
+/**
+ * Whether a request failed without an answer from the server: fetch() couldn't send it or it timed out.
+ * Errors thrown while parsing the body or by interceptors aren't, so they never fall back to stale entries.
+ * Follows `cause`, in case the core wraps the fetch error in its own.
+ */
+function isNetworkError(error: unknown, depth = 0): boolean {
+  if (!error || typeof error !== 'object' || depth > 3) return false;
+  const { name, message, cause } = error as { name?: string; message?: string; cause?: unknown };
+  if (name === 'NetworkError' || name === 'TimeoutError') return true;
+  if (error instanceof TypeError && FETCH_FAILURE_MESSAGE.test(message || '')) return true;
+  return isNetworkError(cause, depth + 1);
+}
+
+function openCacheChannel(name: string, onMessage: (message: CacheChangeMessage) => void): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  try {
+    const channel = new BroadcastChannel(CHANNEL_PREFIX + name);
+    channel.onmessage = (event: MessageEvent<CacheChangeMessage>) => onMessage(event.data);
+    // Node.js: don't keep the process alive just for the channel
+    (channel as { unref?: () => void }).unref?.();
+    return channel;
+  } catch {
+    return null;
+  }
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'revalidated' | 'stale-if-error' | 'miss';
+
+export type CacheStatusInfo = {
+  status: CacheStatus;
+  /**
+   * Age in ms of the entry served from cache. Undefined on a miss.
+   */
+  ageMs?: number;
+  /**
+   * When the status was recorded
+   */
+  at: number;
+  /**
+   * Status and headers of the response served from cache. Undefined on a miss.
+   */
+  response?: CachedResponseInfo;
+};
+
+/**
+ * The metadata of a cached response, as a network response exposes it.
+ * `headers` has the stored `responseHeaders` plus an `Age` header with the age of the entry in seconds.
+ */
+export type CachedResponseInfo = {
+  status: number;
+  statusText: string;
+  headers: Headers;
+};
+
+export type CacheHitEvent = {
+  hash: string;
+  config: RequestConfig;
+  status: Exclude<CacheStatus, 'miss'>;
+  ageMs: number;
+  response: CachedResponseInfo;
+};
+
+export type CacheMissEvent = {
+  hash: string;
+  config: RequestConfig;
+};
+
+export type CacheWriteEvent = {
+  hash: string;
+  /**
+   * Undefined for entries written by `importSnapshot()`
+   */
+  config?: RequestConfig;
+  entry: CacheEntry;
+};
+
+export type CacheEvictEvent = {
+  reason: 'capacity' | 'invalidated' | 'cleared' | 'no-store';
+  /**
+   * Set when a single entry was evicted
+   */
+  hash?: string;
+  /**
+   * Set when entries were evicted by tag
+   */
+  tags?: string[];
+  /**
+   * Set when a whole partition was evicted
+   */
+  partition?: string;
+  /**
+   * True if the eviction happened in another adapter instance (see the `crossTab` option)
+   */
+  remote?: boolean;
+};
+
+export type CacheErrorEvent = {
+  operation: 'read' | 'write' | 'revalidate' | 'invalidate' | 'prefetch' | 'cleanup';
+  error: unknown;
+  hash?: string;
+};
+
+export type CacheHooks = {
+  onHit?: (event: CacheHitEvent) => void;
+  onMiss?: (event: CacheMissEvent) => void;
+  onWrite?: (event: CacheWriteEvent) => void;
+  onEvict?: (event: CacheEvictEvent) => void;
+  onError?: (event: CacheErrorEvent) => void;
+};
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+  errors: number;
+  /**
+   * hits / (hits + misses), 0 if there were no cacheable requests yet
+   */
+  hitRatio: number;
+  /**
+   * The store's usage. Undefined if the store can report neither its usage nor its entries.
+   */
+  entries?: number;
+  bytes?: number;
+};
+
+// Max number of request hashes whose last cache status is kept for `getCacheStatus()`
+const MAX_TRACKED_STATUSES = 500;
+// Max number of network errors kept to replay cached error responses
+const MAX_TRACKED_ERRORS = 100;
+
+/**
+ * A copy of an error with the same prototype and own properties, so that `instanceof` checks and fields match
+ */
+function copyError<T extends object>(error: T): T {
+  const descriptors = Object.getOwnPropertyDescriptors(error);
+  for (const descriptor of Object.values(descriptors)) {
+    if (!descriptor.value || typeof descriptor.value !== 'object') continue;
+    // Each replay gets its own copy of the body, like a cache hit would
+    try {
+      descriptor.value = structuredClone(descriptor.value);
+    } catch {
+      // not cloneable (e.g. a Response): shared
+    }
+  }
+  return Object.create(Object.getPrototypeOf(error), descriptors);
+}
+
+export type HttpCachingOptions = {
+  /**
+   * Behave as a shared cache: `private` responses aren't stored and `s-maxage` takes precedence over `max-age`.
+   * Defaults to false.
+   */
+  shared?: boolean;
+  /**
+   * How long entries with validators (ETag/Last-Modified) are kept after they go stale,
+   * so that they can be revalidated with a conditional request. Defaults to one day.
+   */
+  revalidationWindowSeconds?: number;
+};
+
+export default class SimpleRequestCacheAdapter implements Adapter {
+  readonly name = '@apihive/adapter-simple-cache';
+  readonly priority: AdapterPriority = {
+    requestInterceptor: 0,
+    responseInterceptor: 0,
+    errorInterceptor: 0
+  };
+  // Auto-enable the request-hash feature
+  readonly use: Feature[] = [requestHashFeature];
+
+  private store: Store;
+  private filter?: (config: RequestConfig) => boolean;
+  private clearOnAttach: boolean;
+  private factory?: HTTPRequestFactory;
+  private readyPromise?: Promise<void>;
+  private storeLimits: StoreLimits;
+  private storeFallback: 'memory' | 'disable';
+  private disabled = false;
+  // The configured store, while the adapter falls back from it
+  private failedStore?: Store;
+  private retryStoreAt = 0;
+  private cleanupIntervalSeconds: number;
+  private cleanupTimer?: ReturnType<typeof setInterval>;
+  private cleaningUp = false;
+  private onVisibilityChange?: () => void;
+  private revalidating = new Set<string>();
+  private httpCaching: Required<HttpCachingOptions> | null;
+  private invalidateOnMutation: boolean;
+  private dedupeInflight: boolean;
+  private binaryMimeTypes: string[];
+  private responseHeaders: string[];
+  private shouldCache?: ShouldCachePredicate;
+  private hooks: CacheHooks;
+  private counters = { hits: 0, misses: 0, writes: 0, evictions: 0, errors: 0 };
+  // By request hash, along with the store key they were tracked for
+  private statuses = new Map<string, { hash: string; info: CacheStatusInfo }>();
+  // Errors the core raised for responses cached because of `cacheStatuses`, by hash, to replay them as they were
+  private httpErrors = new Map<string, Error & { status: number }>();
+  private replayedErrors = new WeakSet<object>();
+  // Hashes of requests sent with validators, pending a 304 or a full response
+  private conditional = new Set<string>();
+  private channel: BroadcastChannel | null = null;
+  private offlineFallback: Required<OfflineFallbackOptions>;
+  private inflight = new Map<string, { promise: Promise<any>; resolve: (body: any) => void }>();
+  // Request hashes by config, for the error interceptor
+  private hashes = new WeakMap<RequestConfig, CacheKey>();
+  private partitionKey?: (config: RequestConfig) => string | null | undefined;
+  private encryption?: EncryptionKey;
+  private compression: Required<CompressionOptions> | null;
+  private cacheVersion?: string;
+
+  constructor(options: SimpleRequestCacheAdapterOptions = { cacheName: 'apihive-request-cache' }) {
+    const {
+      cacheName = 'apihive-request-cache',
+      filter,
+      clear = false,
+      store,
+      respectHttpHeaders,
+      invalidateOnMutation = true,
+      maxEntries,
+      maxBytes,
+      dedupeInflight = false,
+      binaryMimeTypes = [],
+      responseHeaders = [],
+      shouldCache,
+      memoryCache,
+      storeFallback = 'memory',
+      cleanupIntervalSeconds = 0,
+      onHit,
+      onMiss,
+      onWrite,
+      onEvict,
+      onError,
+      crossTab = false,
+      offlineFallback,
+      partitionKey,
+      encryption,
+      compression,
+      cacheVersion
+    } = options;
+    if (!store && !cacheName) throw new Error('cacheName is cannot be an empty string');
+    this.filter = filter;
+    this.partitionKey = partitionKey;
+    this.encryption = encryption;
+    this.cacheVersion = cacheVersion;
+    this.clearOnAttach = !!clear;
+    this.invalidateOnMutation = invalidateOnMutation;
+    this.dedupeInflight = dedupeInflight;
+    this.binaryMimeTypes = binaryMimeTypes;
+    this.responseHeaders = responseHeaders.map((name) => name.toLowerCase());
+    this.shouldCache = shouldCache;
+    this.hooks = { onHit, onMiss, onWrite, onEvict, onError };
+    this.storeLimits = { maxEntries, maxBytes };
+    this.storeFallback = storeFallback;
+    this.cleanupIntervalSeconds = cleanupIntervalSeconds;
+    const persistentStore = store || new IDBStore(cacheName!, 'entries', this.storeLimits);
+    this.store = this.useStore(
+      memoryCache
+        ? new TieredStore(persistentStore, typeof memoryCache === 'object' ? memoryCache : undefined)
+        : persistentStore
+    );
+    if (crossTab) this.channel = openCacheChannel(cacheName, (message) => this.applyRemoteChange(message));
+    this.httpCaching = respectHttpHeaders
+      ? {
+          shared: false,
+          revalidationWindowSeconds: 86400,
+          ...(typeof respectHttpHeaders === 'object' ? respectHttpHeaders : {})
         }
+      : null;
+    // Without the global option, fallback only applies to requests with `meta.cache.staleIfErrorSeconds`
+    this.offlineFallback = {
+      staleIfErrorSeconds: offlineFallback ? 86400 : 0,
+      statuses: [500, 502, 503, 504],
+      ...(typeof offlineFallback === 'object' ? offlineFallback : {})
+    };
+    const codec = (typeof compression === 'object' && compression.codec) || gzipCodec;
+    this.compression =
+      compression && (codec !== gzipCodec || typeof CompressionStream !== 'undefined')
+        ? { thresholdBytes: 1024, ...(typeof compression === 'object' ? compression : {}), codec }
+        : null;
+  }
+
+  onAttach(factory: HTTPRequestFactory): void {
+    this.factory = factory;
+    // Also tells whether the store works at all
+    let ready: Promise<void>;
+    try {
+      ready = this.clearOnAttach ? this.store.clear() : this.store.cleanupExpired(Date.now());
+    } catch (e) {
+      ready = Promise.reject(e);
+    }
+    this.readyPromise = ready.catch((e) => this.fallBackFromStore(e));
+    // Not part of readyPromise: requests don't need to wait for it
+    if (!this.clearOnAttach) this.readyPromise.then(() => this.sweepOtherVersions());
+    if (this.cleanupIntervalSeconds > 0 && this.cleanupTimer === undefined) {
+      // Nobody reads from a hidden tab: pause the sweeps until it's visible again
+      if (typeof document !== 'undefined') {
+        this.onVisibilityChange = () => {
+          if (document.visibilityState === 'hidden') this.stopCleanup();
+          else this.startCleanup();
+        };
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+      }
+      this.startCleanup();
+    }
+  }
+
+  /**
+   * Entries written by other builds are never served: don't let them take up room until they expire
+   */
+  private async sweepOtherVersions() {
+    if (this.cacheVersion === undefined || this.disabled) return;
+    if (!this.store.deleteOtherVersions && !this.store.getAll) return;
+    try {
+      await deleteOtherVersions(this.store, this.cacheVersion);
+    } catch (e) {
+      this.reportError('cleanup', e);
+    }
+  }
 
+  private startCleanup() {
+    if (this.cleanupTimer !== undefined) return;
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') return;
+    this.cleanupTimer = setInterval(() => this.cleanupExpired(), this.cleanupIntervalSeconds * 1000);
+    // Node.js: don't keep the process alive just for the sweeps
+    (this.cleanupTimer as { unref?: () => void }).unref?.();
+  }
+
+  private stopCleanup() {
+    clearInterval(this.cleanupTimer);
+    this.cleanupTimer = undefined;
+  }
+
+  private async cleanupExpired() {
+    // A sweep of a large store can outlast the interval
+    if (this.cleaningUp) return;
+    this.cleaningUp = true;
+    try {
+      await this.readyPromise;
+      if (!this.disabled) await this.store.cleanupExpired(Date.now());
+    } catch (e) {
+      this.reportError('cleanup', e);
+    } finally {
+      this.cleaningUp = false;
+    }
+  }
+
+  private fallBackFromStore(error: unknown) {
+    const disable = this.storeFallback === 'disable';
+    this.factory?.logger.warn(
+      disable ? 'Cache store unavailable: caching disabled' : 'Cache store unavailable: caching in memory instead',
+      error
+    );
+    this.disabled = disable;
+    this.failedStore = this.store;
+    this.retryStoreAt = Date.now() + STORE_RETRY_INTERVAL_MS;
+    this.store = this.useStore(new MemoryStore(this.storeLimits));
+  }
+
+  /**
+   * Tries the store that failed on attach again, at most once per interval, and switches back to it if it works.
+   * Its failure might have been temporary, e.g. an upgrade blocked by another tab.
+   */
+  private retryFailedStore() {
+    const store = this.failedStore;
+    if (!store || Date.now() < this.retryStoreAt) return;
+    // One attempt at a time
+    this.retryStoreAt = Infinity;
+    store.cleanupExpired(Date.now()).then(
+      () => {
+        this.failedStore = undefined;
+        this.store = store;
+        this.disabled = false;
+      },
+      () => (this.retryStoreAt = Date.now() + STORE_RETRY_INTERVAL_MS)
+    );
+  }
+
+  /**
+   * Wires the store's own evictions to the hooks and the other tabs
+   */
+  private useStore(store: Store): Store {
+    const storeOnEvict = store.onEvict;
+    store.onEvict = (hash) => {
+      storeOnEvict?.(hash);
+      this.evicted({ reason: 'capacity', hash });
+      this.broadcast({ type: 'delete', hash, reason: 'capacity' });
+    };
+    return store;
+  }
+
+  getRequestInterceptors(): RequestInterceptor[] {
+    return [
+      async ({config, controls}) => {
+        await this.readyPromise;
+        this.retryFailedStore();
+        if (this.disabled) return;
+
+        const cacheConfig = this.resolveCacheMetaConfig(config.meta);
+        const { ttlSeconds, staleWhileRevalidateSeconds, mode } = cacheConfig;
+        // Any stored entry will do, even an expired one
+        const usesAnyEntry = mode === 'force-cache' || mode === 'only-if-cached';
+        if ((!ttlSeconds && !usesAnyEntry) || mode === 'no-store') return;
+        const isRevalidation = !!config.meta?.[REVALIDATE_META_KEY];
+
+        const explicit = this.isExplicitCache(config);
+        if (!explicit && this.filter && !this.filter(config)) return;
+
+        // Ensure URL is finalized prior to hashing
+        controls.finaliseURL();
+
+        const key = this.cacheKey(config, controls, cacheConfig);
+        if (!key) return;
+        const { hash } = key;
+
+        this.hashes.set(config, key);
+        // Left behind by a conditional request that failed
+        this.conditional.delete(hash);
+        let conditional = false;
+        let negativeHit: CacheEntry | undefined;
         try {
-          const entry = await this.store.get(hash);
+          const entry = mode === 'reload' ? null : await this.readEntry(hash);
           const now = Date.now();
-          if (entry && entry.expiresAt > now) {
-            return entry.body;
+          if (entry && (entry.expiresAt > now || usesAnyEntry)) {
+            const fresh = this.isFresh(entry, now);
+            // Background revalidation: go to the network and let the response interceptor refresh the entry
+            if (isRevalidation) {
+              this.addValidatorHeaders(entry, controls);
+              return;
+            }
+            if (usesAnyEntry || (fresh && mode !== 'no-cache')) {
+              this.hit(key, config, fresh ? 'hit' : 'stale', now - entry.createdAt, entry);
+              if (fresh && this.isDueForRefresh(entry, now, cacheConfig)) this.revalidateInBackground(hash, config);
+              if (!entry.negative) return this.bodyOf(entry);
+              negativeHit = entry;
+            } else if (
+              mode !== 'no-cache' &&
+              now < (entry.freshUntil ?? entry.expiresAt) + (staleWhileRevalidateSeconds || 0) * 1000
+            ) {
+              this.hit(key, config, 'stale', now - entry.createdAt, entry);
+              this.revalidateInBackground(hash, config);
+              return this.bodyOf(entry);
+            } else {
+              // The outcome is known once the server answers: 304 or a new body
+              conditional = this.addValidatorHeaders(entry, controls);
+            }
           }
         } catch (e) {
-          this.factory!.logger.error('Failed to read cache entry', e);
+          this.reportError('read', e, hash);
+        }
+        if (negativeHit) throw this.replayError(hash, negativeHit);
+        if (conditional) this.conditional.add(hash);
+        else if (!isRevalidation) this.missed(key, config);
+        if (mode === 'only-if-cached') throw new CacheMissError(String(config.url));
+
+        // Without a ttl the response isn't stored, so nobody would settle the inflight entry
+        if (this.dedupeInflight && !isRevalidation && ttlSeconds) {
+          if (this.inflight.has(hash)) {
+            const body = await this.waitForInflight(hash);
+            if (typeof body !== 'undefined') return body;
+          } else {
+            this.startInflight(hash);
+          }
         }
         return;
       }
@@ -251,44 +1937,713 @@ export default class SimpleRequestCacheAdapter implements Adapter {
   getResponseInterceptors(): ResponseInterceptor[] {
     const interceptor: ResponseInterceptor = async ({response, config, controls}) => {
       await this.readyPromise;
-      const { ttlSeconds, hashBody } = this.resolveCacheMetaConfig(config.meta);
-      if (!ttlSeconds) return;
+      this.retryFailedStore();
+      if (this.disabled) return;
+      if (response?.ok) await this.invalidateForMutation(config);
+
+      const cacheConfig = this.resolveCacheMetaConfig(config.meta);
+      if (!cacheConfig.ttlSeconds || cacheConfig.mode === 'no-store') return;
 
       const explicit = this.isExplicitCache(config);
       if (!explicit && this.filter && !this.filter(config)) return;
 
-      if (!response || !response.ok) return;
+      if (!response) return;
 
-      const body = await this.readResponseSafely(response, config);
-      if (body === null) return;
+      const key = this.cacheKey(config, controls, cacheConfig);
+      if (!key) return;
 
-      let hash: string;
+      let body: any;
       try {
-        hash = controls.getHash({ includeBody: hashBody });
-      } catch {
-        return;
+        body = await this.storeResponse(response, config, key, cacheConfig);
+      } finally {
+        this.settleInflight(key.hash, body);
+      }
+      // A 304 has no body of its own: answer with the cached one
+      if (response.status === 304) return body;
+      if (this.offlineFallback.statuses.includes(response.status)) return this.staleIfError(key, config, cacheConfig);
+      return;
+    };
+
+    return [interceptor];
+  }
+
+  getErrorInterceptors(): ErrorInterceptor[] {
+    return [
+      async ({ error, config }) => {
+        const key = this.hashes.get(config);
+        if (!key) return;
+        // Let requests waiting on a failed in-flight request go to the network themselves
+        this.settleInflight(key.hash, undefined);
+        this.conditional.delete(key.hash);
+
+        if ((error as Error)?.name === 'AbortError') return;
+        // Raised by the adapter itself
+        if (error instanceof CacheMissError || this.replayedErrors.has(error as object)) return;
+        const status = (error as { status?: unknown })?.status;
+        if (typeof status === 'number' && this.resolveCacheMetaConfig(config.meta).cacheStatuses?.includes(status)) {
+          this.rememberHttpError(key.hash, error as Error & { status: number });
+        }
+        // HTTP errors other than the fallback statuses are legit answers from the server, and errors without a
+        // status only count as failures if the request never reached it
+        if (typeof status === 'number' ? !this.offlineFallback.statuses.includes(status) : !isNetworkError(error)) {
+          return;
+        }
+        // Returning a body recovers the request
+        return this.staleIfError(key, config, this.resolveCacheMetaConfig(config.meta));
       }
+    ];
+  }
+
+  async clearCache(): Promise<void> {
+    await this.readyPromise;
+    await this.store.clear();
+    this.evicted({ reason: 'cleared' });
+    this.broadcast({ type: 'clear' });
+  }
+
+  /**
+   * Removes every entry of the given partition, e.g. on logout. See the `partitionKey` option.
+   */
+  async clearPartition(partition: string): Promise<void> {
+    await this.readyPromise;
+    await deletePartition(this.store, partition);
+    this.evicted({ reason: 'invalidated', partition });
+    this.broadcast({ type: 'partition', partition });
+  }
+
+  /**
+   * Counters since the adapter was created, plus the store's current usage
+   */
+  async getStats(): Promise<CacheStats> {
+    await this.readyPromise;
+    const { hits, misses } = this.counters;
+    const usage = await usageOf(this.store);
+    return {
+      ...this.counters,
+      hitRatio: hits + misses ? hits / (hits + misses) : 0,
+      ...usage
+    };
+  }
+
+  /**
+   * The outcome of the last cacheable request with the given hash (or request), if still tracked.
+   * Requests that include the body in the hash must be looked up by hash.
+   */
+  getCacheStatus(requestOrHash: string | { getHash(): string }): CacheStatusInfo | null {
+    const hash = typeof requestOrHash === 'string' ? requestOrHash : requestOrHash.getHash();
+    return this.statuses.get(hash)?.info || null;
+  }
+
+  private notify<K extends keyof CacheHooks>(hook: K, event: Parameters<NonNullable<CacheHooks[K]>>[0]) {
+    try {
+      (this.hooks[hook] as ((event: any) => void) | undefined)?.(event);
+    } catch (e) {
+      this.factory?.logger.error(`Cache ${hook} hook failed`, e);
+    }
+  }
+
+  private rememberHttpError(hash: string, error: Error & { status: number }) {
+    this.httpErrors.delete(hash);
+    this.httpErrors.set(hash, error);
+    if (this.httpErrors.size > MAX_TRACKED_ERRORS) this.httpErrors.delete(this.httpErrors.keys().next().value!);
+  }
+
+  /**
+   * The error a cached error response fails with: a copy of the one the network request failed with if it's known,
+   * so that callers handle both the same way
+   */
+  private replayError(hash: string, entry: CacheEntry): Error {
+    const original = this.httpErrors.get(hash);
+    const error =
+      original?.status === entry.status
+        ? copyError(original)
+        : new CachedHTTPError(entry.status!, entry.statusText || '', entry.body);
+    this.replayedErrors.add(error);
+    return error;
+  }
+
+  private trackStatus({ hash, requestHash }: CacheKey, info: CacheStatusInfo) {
+    // Re-insert so that the map keeps the most recent statuses last
+    this.statuses.delete(requestHash);
+    this.statuses.set(requestHash, { hash, info });
+    if (this.statuses.size > MAX_TRACKED_STATUSES) this.statuses.delete(this.statuses.keys().next().value!);
+  }
 
+  /**
+   * Forgets the statuses tracked for a store key. With `varyHeaders` or `partitionKey`, it differs from the
+   * request hash that statuses are looked up by.
+   */
+  private forgetStatuses(hash: string) {
+    for (const [requestHash, tracked] of this.statuses) {
+      if (tracked.hash === hash) this.statuses.delete(requestHash);
+    }
+  }
+
+  private hit(
+    key: CacheKey,
+    config: RequestConfig,
+    status: CacheHitEvent['status'],
+    ageMs: number,
+    entry: CacheEntry
+  ) {
+    const headers = new Headers(entry.headers);
+    headers.set('age', String(Math.floor(ageMs / 1000)));
+    const response = { status: entry.status ?? 200, statusText: entry.statusText ?? '', headers };
+    this.counters.hits++;
+    this.trackStatus(key, { status, ageMs, at: Date.now(), response });
+    this.notify('onHit', { hash: key.hash, config, status, ageMs, response });
+  }
+
+  private written(hash: string, config: RequestConfig | undefined, entry: CacheEntry) {
+    this.counters.writes++;
+    this.notify('onWrite', { hash, config, entry });
+    this.broadcast({ type: 'write', hash });
+  }
+
+  private broadcast(message: CacheChangeMessage) {
+    try {
+      this.channel?.postMessage(message);
+    } catch {
+      // the channel was closed
+    }
+  }
+
+  /**
+   * Keeps the in-memory state in sync with changes made to the shared store by other instances
+   */
+  private applyRemoteChange(message: CacheChangeMessage) {
+    switch (message?.type) {
+      case 'write':
+        this.forgetStatuses(message.hash);
+        if (this.store instanceof TieredStore) this.store.forget(message.hash);
+        break;
+      case 'delete':
+        this.forgetStatuses(message.hash);
+        if (this.store instanceof TieredStore) this.store.forget(message.hash);
+        this.notify('onEvict', { reason: message.reason, hash: message.hash, remote: true });
+        break;
+      case 'invalidate':
+        if (this.store instanceof TieredStore) this.store.forget();
+        this.notify('onEvict', { reason: 'invalidated', tags: message.tags, remote: true });
+        break;
+      case 'partition':
+        if (this.store instanceof TieredStore) this.store.forget();
+        this.notify('onEvict', { reason: 'invalidated', partition: message.partition, remote: true });
+        break;
+      case 'clear':
+        this.statuses.clear();
+        if (this.store instanceof TieredStore) this.store.forget();
+        this.notify('onEvict', { reason: 'cleared', remote: true });
+        break;
+    }
+  }
+
+  private missed(key: CacheKey, config: RequestConfig) {
+    this.counters.misses++;
+    this.trackStatus(key, { status: 'miss', at: Date.now() });
+    this.notify('onMiss', { hash: key.hash, config });
+  }
+
+  private evicted(event: CacheEvictEvent) {
+    this.counters.evictions++;
+    this.notify('onEvict', event);
+  }
+
+  private reportError(operation: CacheErrorEvent['operation'], error: unknown, hash?: string) {
+    const messages = {
+      read: 'Failed to read cache entry',
+      write: 'Failed to write cache entry',
+      revalidate: 'Failed to revalidate cache entry',
+      invalidate: 'Failed to invalidate cache entries',
+      prefetch: 'Failed to prefetch request',
+      cleanup: 'Failed to clean up expired cache entries'
+    };
+    this.counters.errors++;
+    this.factory?.logger.error(messages[operation], error);
+    this.notify('onError', { operation, error, hash });
+  }
+
+  private startInflight(hash: string) {
+    let resolve!: (body: any) => void;
+    const promise = new Promise<any>((r) => (resolve = r));
+    this.inflight.set(hash, { promise, resolve });
+  }
+
+  /**
+   * Resolves with the in-flight request's body, or undefined if it couldn't be shared.
+   * Gives up after a while in case the in-flight request never settles (e.g. aborted).
+   */
+  private async waitForInflight(hash: string): Promise<any> {
+    const inflight = this.inflight.get(hash)!;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => {
+        if (this.inflight.get(hash) === inflight) this.settleInflight(hash, undefined);
+        resolve(undefined);
+      }, INFLIGHT_WAIT_TIMEOUT_MS);
+    });
+    try {
+      const body = await Promise.race([inflight.promise, timeout]);
+      // Every waiter gets its own copy, like a cache hit would. Blobs can't be changed, so they're shared.
+      return body === undefined || body instanceof Blob ? body : structuredClone(body);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private settleInflight(hash: string, body: any) {
+    const inflight = this.inflight.get(hash);
+    if (!inflight) return;
+    this.inflight.delete(hash);
+    inflight.resolve(body);
+  }
+
+  /**
+   * Returns the cached body for a failed request, if the entry is within its stale-if-error window
+   */
+  private async staleIfError(key: CacheKey, config: RequestConfig, { staleIfErrorSeconds }: ExtendedCacheMeta) {
+    if (!staleIfErrorSeconds) return;
+    const { hash } = key;
+    try {
+      const entry = await this.readEntry(hash);
       const now = Date.now();
-      const entry: CacheEntry = {
-        hash,
-        body,
-        createdAt: now,
-        expiresAt: now + ttlSeconds * 1000
-      };
+      if (!entry || entry.negative || entry.expiresAt <= now) return;
+      if (now >= (entry.freshUntil ?? entry.expiresAt) + staleIfErrorSeconds * 1000) return;
+      this.hit(key, config, 'stale-if-error', now - entry.createdAt, entry);
+      return this.bodyOf(entry);
+    } catch (e) {
+      this.reportError('read', e, hash);
+      return;
+    }
+  }
+
+  /**
+   * Reads an entry from the store, decrypting and decompressing its body.
+   * Entries of another `cacheVersion` or that fail to decode are deleted and reported as missing.
+   */
+  private async readEntry(hash: string): Promise<CacheEntry | null> {
+    const entry = await this.store.get(hash);
+    return entry && this.decodeEntry(entry);
+  }
+
+  private async decodeEntry(entry: CacheEntry): Promise<CacheEntry | null> {
+    const { hash } = entry;
+    if (this.cacheVersion !== undefined && entry.cacheVersion !== this.cacheVersion) {
+      await this.store.delete(hash);
+      return null;
+    }
+    if (!entry.encrypted && !entry.encoding) return entry;
+    const key = entry.encrypted ? await this.cryptoKey() : undefined;
+    try {
+      const { encrypted, encoding, ...plain } = entry;
+      let data: ArrayBuffer = entry.body;
+      if (encrypted) {
+        if (!key) throw new Error('No encryption key');
+        data = await decryptBytes(key, data);
+      }
+      if (encoding) data = await this.codecFor(encoding).decompress(data);
+      return { ...plain, body: bytesToBody(data, entry) };
+    } catch {
+      await this.store.delete(hash);
+      return null;
+    }
+  }
+
+  /**
+   * Writes an entry to the store, compressing and encrypting its body as configured
+   */
+  private async writeEntry(entry: CacheEntry): Promise<void> {
+    let stored = this.cacheVersion === undefined ? entry : { ...entry, cacheVersion: this.cacheVersion };
+    if (this.compression && estimateSize(entry.body) >= this.compression.thresholdBytes) {
+      const { codec } = this.compression;
+      stored = { ...stored, body: await codec.compress(bodyToBytes(stored.body)), encoding: codec.name };
+    }
+    const key = await this.cryptoKey();
+    if (key) stored = { ...stored, body: await encryptBytes(key, bodyToBytes(stored.body)), encrypted: true };
+    await this.store.set(stored);
+  }
+
+  /**
+   * Entries keep working after the codec changes, as long as they were compressed with gzip
+   */
+  private codecFor(encoding: string): CompressionCodec {
+    if (this.compression?.codec.name === encoding) return this.compression.codec;
+    if (encoding === gzipCodec.name) return gzipCodec;
+    throw new Error(`Unknown cache entry encoding ${encoding}`);
+  }
+
+  private async cryptoKey(): Promise<CryptoKey | undefined> {
+    return typeof this.encryption === 'function' ? this.encryption() : this.encryption;
+  }
+
+  /**
+   * Writes a successful (or, with HTTP caching, not modified) response to the store.
+   * Returns the response body, or undefined if it can't be cached.
+   */
+  private async storeResponse(
+    response: Response,
+    config: RequestConfig,
+    key: CacheKey,
+    cacheConfig: ExtendedCacheMeta
+  ): Promise<any> {
+    const { ttlSeconds, tags, negativeTtlSeconds, shouldCache } = cacheConfig;
+    const { hash, partition } = key;
+    const wasConditional = this.conditional.delete(hash);
+    if (wasConditional && response.status !== 304) this.missed(key, config);
+    const negative = !response.ok && !!cacheConfig.cacheStatuses?.includes(response.status);
+    if (!response.ok && !negative && !(response.status === 304 && this.httpCaching)) return;
+
+    const now = Date.now();
+    const policy = this.httpCaching && parseHttpCachePolicy(response.headers, this.httpCaching.shared, now);
+    if (policy?.noStore) {
       try {
-        await this.store.set(entry);
+        if (await this.store.get(hash)) {
+          await this.store.delete(hash);
+          this.evicted({ reason: 'no-store', hash });
+          this.broadcast({ type: 'delete', hash, reason: 'no-store' });
+        }
       } catch (e) {
-        this.factory!.logger.error('Failed to write cache entry', e);
+        this.reportError('write', e, hash);
       }
       return;
+    }
+    const freshSecondsOf = (body: any) => {
+      if (negative && negativeTtlSeconds !== undefined) return negativeTtlSeconds;
+      // A TTL function takes precedence over the HTTP headers: it can read them from the response
+      if (typeof ttlSeconds === 'function') return ttlSeconds(body, response, config) || 0;
+      return negative ? ttlSeconds : (policy?.ttlSeconds ?? ttlSeconds);
     };
 
-    return [interceptor];
+    if (response.status === 304) {
+      // Not modified: extend the entry we revalidated instead of downloading the body again
+      try {
+        const cached = await this.readEntry(hash);
+        if (!cached) {
+          if (wasConditional) this.missed(key, config);
+          return;
+        }
+        const entry: CacheEntry = {
+          ...cached,
+          etag: policy!.etag || cached.etag,
+          lastModified: policy!.lastModified || cached.lastModified,
+          ...this.entryLifetime(now, freshSecondsOf(cached.body), cacheConfig, true)
+        };
+        // A 304 carries the headers that would have come with a 200
+        const headers = { ...cached.headers, ...this.pickHeaders(response) };
+        if (Object.keys(headers).length) entry.headers = headers;
+        await this.writeEntry(entry);
+        // A background revalidation's request was already counted when it was served stale
+        if (!config.meta?.[REVALIDATE_META_KEY]) this.hit(key, config, 'revalidated', 0, entry);
+        this.written(hash, config, entry);
+        return this.bodyOf(cached);
+      } catch (e) {
+        this.reportError('write', e, hash);
+        return;
+      }
+    }
+
+    const body = await this.readResponseSafely(response, config);
+    // An error body the core can't parse is still worth replaying as an error
+    if (body === null && !negative) return;
+
+    let freshSeconds = 0;
+    let cacheable = false;
+    try {
+      freshSeconds = freshSecondsOf(body);
+      cacheable = shouldCache?.(body, response, config) ?? true;
+    } catch (e) {
+      this.reportError('write', e, hash);
+    }
+    const hasValidators = !negative && !!(policy?.etag || policy?.lastModified);
+    // Without validators there would be no way to reuse an entry that is stale from the start
+    if (!cacheable || (!freshSeconds && !hasValidators)) {
+      return negative ? undefined : this.bodyOf({ body, blobType: this.contentTypeOf(response) });
+    }
+
+    const entry: CacheEntry = {
+      hash,
+      body,
+      createdAt: now,
+      // Negative entries are never served stale nor revalidated
+      ...(negative
+        ? { freshUntil: now + freshSeconds * 1000, expiresAt: now + freshSeconds * 1000, negative }
+        : this.entryLifetime(now, freshSeconds, cacheConfig, hasValidators))
+    };
+    entry.status = response.status;
+    entry.statusText = response.statusText;
+    const headers = this.pickHeaders(response);
+    if (Object.keys(headers).length) entry.headers = headers;
+    if (policy?.etag) entry.etag = policy.etag;
+    if (policy?.lastModified) entry.lastModified = policy.lastModified;
+    if (tags?.length) entry.tags = tags;
+    if (partition) entry.partition = partition;
+    entry.url = config.url;
+    entry.method = String(config.method).toUpperCase();
+    const endpoint = config.meta?.api?.endpointName;
+    if (endpoint) entry.endpoint = endpoint;
+    if (body instanceof ArrayBuffer) entry.blobType = this.contentTypeOf(response);
+    try {
+      await this.writeEntry(entry);
+      this.written(hash, config, entry);
+    } catch (e) {
+      this.reportError('write', e, hash);
+    }
+    return negative ? undefined : this.bodyOf(entry);
   }
 
-  async clearCache(): Promise<void> {
-    await this.store.clear();
+  /**
+   * Removes every entry tagged with at least one of the given tags
+   */
+  async invalidateTags(tags: string | string[]): Promise<void> {
+    await this.readyPromise;
+    const list = Array.isArray(tags) ? tags : [tags];
+    if (!list.length) return;
+    await deleteTagged(this.store, list);
+    this.evicted({ reason: 'invalidated', tags: list });
+    this.broadcast({ type: 'invalidate', tags: list });
+  }
+
+  /**
+   * Executes a request, or a request to an API endpoint with the given URL params, to warm up the cache.
+   * Its body is discarded and failures are only reported via the `onError` hook.
+   */
+  async prefetch(target: string | { execute(): Promise<unknown> }, params?: Record<string, any>): Promise<void> {
+    try {
+      if (typeof target !== 'string') {
+        await target.execute();
+        return;
+      }
+      if (!this.factory) throw new Error('Cannot prefetch before the adapter is attached to a factory');
+      const request = this.factory.createAPIRequest(target);
+      if (params) request.withURLParams(params);
+      await request.execute();
+    } catch (e) {
+      this.reportError('prefetch', e);
+    }
+  }
+
+  /**
+   * Stops the scheduled cleanup and closes the cross-tab channel and the store's connections.
+   * Requests made afterwards still work, but reopen the store.
+   */
+  async dispose(): Promise<void> {
+    this.stopCleanup();
+    if (this.onVisibilityChange) {
+      document.removeEventListener('visibilitychange', this.onVisibilityChange);
+      this.onVisibilityChange = undefined;
+    }
+    this.channel?.close();
+    this.channel = null;
+    await this.readyPromise;
+    await this.store.close?.();
+    await this.failedStore?.close?.();
+  }
+
+  /**
+   * The cached entry for a request, without going to the network. Null if missing or no longer fresh, i.e. if the
+   * request would go to the network even when a stale entry could be served while revalidating.
+   */
+  async peek(target: CacheTarget): Promise<CacheEntry | null> {
+    await this.readyPromise;
+    const hash = this.hashOf(target);
+    if (!hash) return null;
+    const entry = await this.readEntry(hash);
+    return entry && this.isFresh(entry, Date.now()) ? entry : null;
+  }
+
+  /**
+   * Removes the cached entry for a request
+   */
+  async invalidate(target: CacheTarget): Promise<void> {
+    await this.readyPromise;
+    const hash = this.hashOf(target);
+    if (!hash) return;
+    await this.store.delete(hash);
+    this.evicted({ reason: 'invalidated', hash });
+    this.broadcast({ type: 'delete', hash, reason: 'invalidated' });
+  }
+
+  /**
+   * Removes the entries whose URL matches the pattern, or that satisfy the predicate.
+   * String patterns match whole URLs, with `*` matching any sequence of characters.
+   * Returns the number of removed entries.
+   */
+  async invalidateMatching(pattern: string | RegExp | ((entry: CacheEntryInfo) => boolean)): Promise<number> {
+    await this.readyPromise;
+    const matches = urlMatcher(pattern);
+    let count = 0;
+    for (const { body, ...info } of await entriesOf(this.store)) {
+      if (!matches(info)) continue;
+      await this.store.delete(info.hash);
+      this.evicted({ reason: 'invalidated', hash: info.hash });
+      this.broadcast({ type: 'delete', hash: info.hash, reason: 'invalidated' });
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Metadata of the entries that are still fresh
+   */
+  async *entries(): AsyncGenerator<CacheEntryInfo> {
+    await this.readyPromise;
+    const now = Date.now();
+    for (const { body, ...info } of await entriesOf(this.store)) {
+      if (!this.isFresh(info, now)) continue;
+      if (this.cacheVersion !== undefined && info.cacheVersion !== this.cacheVersion) continue;
+      yield info;
+    }
+  }
+
+  /**
+   * The entries that haven't expired, decrypted and decompressed, in a versioned JSON-serialisable format
+   */
+  async exportSnapshot({ maxAgeSeconds, filter }: SnapshotExportOptions = {}): Promise<CacheSnapshot> {
+    await this.readyPromise;
+    const now = Date.now();
+    const entries: CacheEntry[] = [];
+    for (const stored of await entriesOf(this.store)) {
+      if (stored.expiresAt <= now) continue;
+      if (maxAgeSeconds !== undefined && now - stored.createdAt > maxAgeSeconds * 1000) continue;
+      const entry = await this.decodeEntry(stored);
+      if (!entry) continue;
+      const { body, ...info } = entry;
+      if (filter && !filter(info)) continue;
+      entries.push(toJSONEntry(entry));
+    }
+    return { version: SNAPSHOT_VERSION, createdAt: now, entries };
+  }
+
+  /**
+   * Writes the entries of a snapshot (or its JSON) to the store, skipping malformed and expired ones.
+   * Returns the number of imported entries.
+   */
+  async importSnapshot(snapshot: CacheSnapshot | string): Promise<number> {
+    await this.readyPromise;
+    const { version, entries } = typeof snapshot === 'string' ? (JSON.parse(snapshot) as CacheSnapshot) : snapshot;
+    if (version !== SNAPSHOT_VERSION || !Array.isArray(entries)) {
+      throw new Error(`Unsupported cache snapshot version ${version}`);
+    }
+    const now = Date.now();
+    let count = 0;
+    for (const raw of entries) {
+      // Snapshot bodies are never encrypted or compressed
+      if (!raw || typeof raw.hash !== 'string' || !('body' in raw) || raw.encrypted || raw.encoding) continue;
+      if (!Number.isFinite(raw.expiresAt) || raw.expiresAt <= now || !Number.isFinite(raw.createdAt)) continue;
+      const { lastAccessedAt, size, ...entry } = fromJSONEntry({ ...raw });
+      await this.writeEntry(entry);
+      this.written(entry.hash, undefined, entry);
+      count++;
+    }
+    return count;
+  }
+
+  private hashOf(target: CacheTarget): string | undefined {
+    if (typeof target === 'string') return target;
+    // Like the request interceptor does: a request that wasn't executed yet still has its URL params to apply
+    (target as { finaliseURL?: () => void }).finaliseURL?.();
+    return this.cacheKey(target.config, target, this.resolveCacheMetaConfig(target.config.meta))?.hash;
+  }
+
+  private async invalidateForMutation(config: RequestConfig) {
+    if (!this.invalidateOnMutation || !MUTATION_METHODS.includes(String(config.method).toUpperCase())) return;
+    const invalidates = config.meta?.invalidates as InvalidatesMeta | undefined;
+    if (!invalidates) return;
+    try {
+      await this.invalidateTags(invalidates);
+    } catch (e) {
+      this.reportError('invalidate', e);
+    }
+  }
+
+  /**
+   * The store key is the request hash plus the values of the `varyHeaders` and the partition, if any.
+   * Returns null if the request hash is unavailable.
+   */
+  private cacheKey(
+    config: RequestConfig,
+    controls: { getHash(options: { includeBody: boolean }): string },
+    { hashBody, varyHeaders }: ExtendedCacheMeta
+  ): CacheKey | null {
+    let requestHash: string;
+    try {
+      requestHash = controls.getHash({ includeBody: hashBody }); // includeBody defaults to false
+    } catch {
+      // If request-hash is unavailable, do nothing. Feature guard is already in getHash()
+      return null;
+    }
+    let hash = requestHash;
+    if (varyHeaders?.length) {
+      const vary = varyHeaders
+        .map((name) => name.toLowerCase())
+        .sort()
+        .map((name) => `${name}=${encodeURIComponent(requestHeader(config, name) ?? '')}`);
+      hash += `|vary:${vary.join('&')}`;
+    }
+    const partition = this.partitionKey?.(config) || undefined;
+    if (partition) hash += `|partition:${encodeURIComponent(partition)}`;
+    return { hash, requestHash, partition };
+  }
+
+  private isDueForRefresh(entry: CacheEntry, now: number, { refreshAheadRatio }: ExtendedCacheMeta): boolean {
+    if (!refreshAheadRatio || entry.negative) return false;
+    const freshUntil = entry.freshUntil ?? entry.expiresAt;
+    return now >= entry.createdAt + (freshUntil - entry.createdAt) * refreshAheadRatio;
+  }
+
+  private isFresh(entry: Pick<CacheEntry, 'freshUntil' | 'expiresAt'>, now: number): boolean {
+    return (entry.freshUntil ?? entry.expiresAt) > now;
+  }
+
+  /**
+   * Stale entries are kept for the longest of the stale-while-revalidate window, the stale-if-error window
+   * and, if they can be revalidated with a conditional request, the HTTP caching revalidation window.
+   */
+  private entryLifetime(now: number, freshSeconds: number, cacheConfig: ExtendedCacheMeta, hasValidators = false) {
+    const freshUntil = now + freshSeconds * 1000;
+    const revalidationSeconds = hasValidators && this.httpCaching ? this.httpCaching.revalidationWindowSeconds : 0;
+    const keepSeconds = Math.max(
+      cacheConfig.staleWhileRevalidateSeconds || 0,
+      cacheConfig.staleIfErrorSeconds || 0,
+      revalidationSeconds
+    );
+    return { freshUntil, expiresAt: freshUntil + keepSeconds * 1000 };
+  }
+
+  /**
+   * Returns true if the request was made conditional
+   */
+  private addValidatorHeaders(
+    entry: CacheEntry,
+    controls: { updateHeaders(headers: Record<string, string>): void }
+  ): boolean {
+    if (!this.httpCaching) return false;
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    if (!Object.keys(headers).length) return false;
+    controls.updateHeaders(headers);
+    return true;
+  }
+
+  /**
+   * Re-issues the request through the factory, flagged so that the request interceptor
+   * skips the cache lookup. The response interceptor then stores the fresh body.
+   * Only one revalidation per hash runs at any time.
+   */
+  private revalidateInBackground(hash: string, config: RequestConfig) {
+    if (this.revalidating.has(hash) || !this.factory) return;
+    this.revalidating.add(hash);
+    Promise.resolve()
+      .then(() => {
+        const request = this.factory!.createRequest(config.url, config.method)
+          .withHeaders(requestHeaders(config))
+          .withMeta({ ...(config.meta || {}), [REVALIDATE_META_KEY]: true });
+        if (typeof config.body !== 'undefined') request.withBody(config.body);
+        return request.execute();
+      })
+      .catch((e) => this.reportError('revalidate', e, hash))
+      .finally(() => this.revalidating.delete(hash));
   }
 
   private isJSONResponse(config: RequestConfig, contentType: string): boolean {
@@ -299,37 +2654,100 @@ export default class SimpleRequestCacheAdapter implements Adapter {
     return config.textMimeTypes.some((type) => new RegExp(type, 'i').test(contentType));
   }
 
+  private isBinaryResponse(contentType: string): boolean {
+    return this.binaryMimeTypes.some((type) => new RegExp(type, 'i').test(contentType));
+  }
+
+  private pickHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const name of this.responseHeaders) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    return headers;
+  }
+
+  private contentTypeOf(response: Response): string {
+    return response.headers.get('content-type')?.split(/;\s?/)[0] || '';
+  }
+
   private async readResponseSafely(response: Response, config: RequestConfig): Promise<any | null> {
-    const ct = response.headers.get('content-type')?.split(/;\s?/)[0] || '';
+    const ct = this.contentTypeOf(response);
     try {
       if (this.isJSONResponse(config, ct)) return await response.clone().json();
     } catch {}
     try {
       if (this.isTextResponse(config, ct)) return await response.clone().text();
     } catch {}
-    return null; // skip binary / unknown
+    try {
+      if (this.isBinaryResponse(ct)) return await response.clone().arrayBuffer();
+    } catch {}
+    return null; // skip unknown
+  }
+
+  /**
+   * The body as the core would have parsed it from the network response: binary bodies are returned as Blob
+   */
+  private bodyOf(entry: Pick<CacheEntry, 'body' | 'blobType'>): any {
+    if (entry.body instanceof ArrayBuffer) return new Blob([entry.body], { type: entry.blobType || '' });
+    return entry.body;
   }
 
   private resolveCacheMetaConfig(meta: { cache?: CacheMeta }): ExtendedCacheMeta {
-    if (typeof meta?.cache === 'undefined') return { ttlSeconds: 0, hashBody: false };
+    if (typeof meta?.cache === 'undefined')
+      return {
+        ttlSeconds: 0,
+        hashBody: false,
+        staleWhileRevalidateSeconds: 0,
+        staleIfErrorSeconds: 0,
+        mode: 'default',
+        varyHeaders: [],
+        cacheStatuses: [],
+        tags: []
+      };
 
     if (configDoesntConform(meta.cache))
-      throw new Error('Cache config must be a number or an object with ttlSeconds and/or hashBody properties');
+      throw new Error('Cache config must be a number or an object with ttlSeconds, hashBody and/or mode properties');
     const ttl = typeof meta?.cache === 'number' ? meta?.cache : meta?.cache.ttlSeconds || 0;
     const hashBody = (meta?.cache as ExtendedCacheMeta)?.hashBody === true || false;
-    return { ttlSeconds: ttl, hashBody };
+    const staleWhileRevalidateSeconds = (meta?.cache as ExtendedCacheMeta)?.staleWhileRevalidateSeconds || 0;
+    const staleIfErrorSeconds =
+      (meta?.cache as ExtendedCacheMeta)?.staleIfErrorSeconds ?? this.offlineFallback.staleIfErrorSeconds;
+    const mode = (meta?.cache as ExtendedCacheMeta)?.mode || 'default';
+    const refreshAheadRatio = (meta?.cache as ExtendedCacheMeta)?.refreshAheadRatio || 0;
+    const varyHeaders = (meta?.cache as ExtendedCacheMeta)?.varyHeaders || [];
+    const cacheStatuses = (meta?.cache as ExtendedCacheMeta)?.cacheStatuses || [];
+    const negativeTtlSeconds = (meta?.cache as ExtendedCacheMeta)?.negativeTtlSeconds;
+    const shouldCache = (meta?.cache as ExtendedCacheMeta)?.shouldCache ?? this.shouldCache;
+    const tags = (meta?.cache as ExtendedCacheMeta)?.tags || [];
+    return {
+      ttlSeconds: ttl,
+      hashBody,
+      staleWhileRevalidateSeconds,
+      staleIfErrorSeconds,
+      mode,
+      refreshAheadRatio,
+      varyHeaders,
+      cacheStatuses,
+      negativeTtlSeconds,
+      shouldCache,
+      tags
+    };
   }
 
   // Determine if cache was explicitly set at endpoint or request level.
   // If explicit, adapter filter is ignored. If API-level only, adapter filter applies.
   private isExplicitCache(config: RequestConfig): boolean {
-    const { ttlSeconds: apiLevelTTL } = this.resolveCacheMetaConfig(config.meta?.api?.apiMeta as any);
+    const { ttlSeconds: apiLevelTTL, mode: apiLevelMode } = this.resolveCacheMetaConfig(
+      config.meta?.api?.apiMeta as any
+    );
     const endpointMeta = (config.meta?.api?.endpoint?.meta as any) || {};
     const endpointHasCache = Object.prototype.hasOwnProperty.call(endpointMeta, 'cache');
-    const { ttlSeconds: currentTTL } = this.resolveCacheMetaConfig(config.meta);
+    const { ttlSeconds: currentTTL, mode: currentMode } = this.resolveCacheMetaConfig(config.meta);
 
     if (endpointHasCache) return true; // endpoint-level explicit
     if (typeof apiLevelTTL !== 'undefined' && currentTTL !== apiLevelTTL) return true; // request-level explicit
+    if (currentMode !== apiLevelMode) return true; // request-level directive
     return false;
   }
 }